@@ -0,0 +1,63 @@
+// Creates a user in the local store, or resets the password and role of an
+// existing one. Used to bootstrap the first admin before anyone can sign in.
+//
+//   USER_PASSWORD=... npm run users:create -- <username> [viewer|editor|admin]
+//
+// The password can also be passed with --password=..., which leaves it in
+// the shell history.
+import { PrismaClient } from "@prisma/client";
+import { hashPassword } from "../src/lib/password";
+import { createUserSchema } from "../src/lib/userSchema";
+
+const prisma = new PrismaClient();
+
+function parseArgs() {
+  const positional = process.argv.slice(2).filter((a) => !a.startsWith("--"));
+  const passwordArg = process.argv
+    .slice(2)
+    .find((a) => a.startsWith("--password="));
+
+  return {
+    username: positional[0],
+    role: positional[1] ?? "admin",
+    name: positional[0],
+    password:
+      passwordArg?.slice("--password=".length) ?? process.env.USER_PASSWORD,
+  };
+}
+
+async function main() {
+  const parsed = createUserSchema.safeParse(parseArgs());
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      console.error(`${issue.path.join(".") || "input"}: ${issue.message}`);
+    }
+    console.error(
+      "\nUsage: USER_PASSWORD=... npm run users:create -- <username> [viewer|editor|admin]",
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const { username, name, password, role } = parsed.data;
+  const passwordHash = await hashPassword(password);
+
+  const existing = await prisma.user.findUnique({ where: { username } });
+  if (existing) {
+    await prisma.user.update({
+      where: { username },
+      data: { passwordHash, role },
+    });
+    console.log(`Updated "${username}" (${role}).`);
+    return;
+  }
+
+  await prisma.user.create({ data: { username, name, passwordHash, role } });
+  console.log(`Created "${username}" (${role}).`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Error creating user:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
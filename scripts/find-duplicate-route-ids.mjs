@@ -0,0 +1,54 @@
+// One-off report of documents sharing a `route_id`.
+// Run before `prisma db push` adds the unique index on `route_id`, which
+// fails while duplicates exist: `npm run routes:find-duplicates`
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const duplicates = await prisma.route.aggregateRaw({
+    pipeline: [
+      {
+        $group: {
+          _id: "$route_id",
+          count: { $sum: 1 },
+          documents: {
+            $push: {
+              id: { $toString: "$_id" },
+              route_name: "$route_name",
+              stages: { $size: { $ifNull: ["$stages", []] } },
+            },
+          },
+        },
+      },
+      { $match: { count: { $gt: 1 } } },
+      { $sort: { _id: 1 } },
+    ],
+  });
+
+  if (!Array.isArray(duplicates) || duplicates.length === 0) {
+    console.log("No duplicate route_id values found.");
+    return;
+  }
+
+  console.log(`Found ${duplicates.length} duplicated route_id value(s):\n`);
+  for (const group of duplicates) {
+    console.log(`route_id "${group._id}" (${group.count} documents)`);
+    for (const doc of group.documents) {
+      console.log(
+        `  - _id ${doc.id}  "${doc.route_name}"  ${doc.stages} stage(s)`,
+      );
+    }
+  }
+  console.log(
+    "\nRename or delete the extra documents, then run `npx prisma db push`.",
+  );
+  process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error("Error scanning routes:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
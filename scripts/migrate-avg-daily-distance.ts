@@ -0,0 +1,153 @@
+// Brings documents saved in older shapes (see previous_prisma.txt) up to
+// date:
+//
+//   - `avg_daily_distance` kept on stages is lifted to the route
+//   - `avg_daily_distance_N` / `range_value` keys become `label`
+//   - facilities without a `name` or `distance` get an empty one
+//
+//   npm run routes:migrate-avg-daily-distance -- --dry-run
+//
+// Every changed route is listed with what changed. Routes in the trash are
+// migrated too, so restoring them later does not bring the old shape back.
+import { PrismaClient, type Prisma } from "@prisma/client";
+import { liftStageAvgDailyDistance } from "../src/lib/routeExport";
+
+const prisma = new PrismaClient();
+const dryRun = process.argv.includes("--dry-run");
+
+type RawRoute = {
+  _id: { $oid: string };
+  route_id?: string;
+  avg_daily_distance?: unknown;
+  stages?: Array<{
+    stage_number?: number;
+    avg_daily_distance?: unknown;
+    facilities?: Array<Record<string, unknown>>;
+  }>;
+};
+
+// The range as `label`, whichever key older saves used for it
+function labelled(item: unknown) {
+  if (typeof item !== "object" || item === null || Array.isArray(item)) {
+    return { item, renamed: null };
+  }
+  const record = item as Record<string, unknown>;
+  const oldKeys = Object.keys(record).filter(
+    (key) => key === "range_value" || key.startsWith("avg_daily_distance_"),
+  );
+  if (oldKeys.length === 0 && typeof record.label === "string") {
+    return { item, renamed: null };
+  }
+
+  const rest = Object.fromEntries(
+    Object.entries(record).filter(([key]) => !oldKeys.includes(key)),
+  );
+  const label =
+    (typeof record.label === "string" && record.label) ||
+    oldKeys
+      .map((key) => record[key])
+      .find((value): value is string => typeof value === "string" && !!value) ||
+    "";
+  return {
+    item: { label, ...rest },
+    renamed: oldKeys.length > 0 ? oldKeys.join(", ") : "(no label)",
+  };
+}
+
+async function main() {
+  const routes = (await prisma.route.findRaw({
+    filter: {},
+    options: {
+      projection: { route_id: 1, avg_daily_distance: 1, stages: 1 },
+    },
+  })) as unknown as RawRoute[];
+
+  let changedRoutes = 0;
+  for (const route of routes) {
+    const routeId = route.route_id ?? route._id.$oid;
+    const changes: string[] = [];
+    const set: Record<string, Prisma.InputJsonValue> = {};
+    const unset: Record<string, ""> = {};
+    const stages = route.stages ?? [];
+    const stageLabel = (index: number) =>
+      `stage ${stages[index].stage_number ?? `#${index + 1}`}`;
+
+    // Lifted from the stages, then labelled like any other route's
+    const lifted = liftStageAvgDailyDistance(
+      route as unknown as Record<string, unknown>,
+    );
+    const stagesWithAverages = stages.flatMap((stage, index) =>
+      "avg_daily_distance" in stage ? [index] : [],
+    );
+    stagesWithAverages.forEach((index) => {
+      unset[`stages.${index}.avg_daily_distance`] = "";
+    });
+    const before = Array.isArray(route.avg_daily_distance)
+      ? route.avg_daily_distance
+      : [];
+    const items = Array.isArray(lifted.avg_daily_distance)
+      ? lifted.avg_daily_distance
+      : [];
+    if (stagesWithAverages.length > 0) {
+      changes.push(
+        before.length > 0
+          ? `dropped avg_daily_distance from ${stagesWithAverages.map(stageLabel).join(", ")} (route already has its own)`
+          : `lifted ${items.length} avg_daily_distance item(s) from ${stagesWithAverages.map(stageLabel).join(", ")}`,
+      );
+    }
+
+    let relabelled = false;
+    const normalized = items.map((item, index) => {
+      const { item: next, renamed } = labelled(item);
+      if (renamed) {
+        relabelled = true;
+        changes.push(`avg_daily_distance[${index}]: ${renamed} -> label`);
+      }
+      return next;
+    });
+    if (relabelled || (stagesWithAverages.length > 0 && before.length === 0)) {
+      set.avg_daily_distance = normalized as Prisma.InputJsonValue[];
+    }
+
+    stages.forEach((stage, stageIndex) => {
+      (stage.facilities ?? []).forEach((facility, facilityIndex) => {
+        const missing = (["name", "distance"] as const).filter(
+          (field) => typeof facility[field] !== "string",
+        );
+        missing.forEach((field) => {
+          set[`stages.${stageIndex}.facilities.${facilityIndex}.${field}`] = "";
+        });
+        if (missing.length > 0) {
+          changes.push(
+            `${stageLabel(stageIndex)} facility ${facility.index ?? facilityIndex}: filled ${missing.join(", ")}`,
+          );
+        }
+      });
+    });
+
+    if (changes.length === 0) continue;
+    changedRoutes++;
+    console.log(`  ${routeId}`);
+    changes.forEach((change) => console.log(`    - ${change}`));
+    if (dryRun) continue;
+
+    const update: Record<string, Prisma.InputJsonObject> = {};
+    if (Object.keys(set).length > 0) update.$set = set;
+    if (Object.keys(unset).length > 0) update.$unset = unset;
+    await prisma.$runCommandRaw({
+      update: "routes",
+      updates: [{ q: { _id: route._id }, u: update }],
+    });
+  }
+
+  console.log(
+    `${dryRun ? "Would update" : "Updated"} ${changedRoutes} of ${routes.length} route(s).`,
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Error migrating legacy route data:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
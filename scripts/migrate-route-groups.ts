@@ -0,0 +1,66 @@
+// Creates a route group for every distinct `group_name` on existing routes,
+// ordered alphabetically after any groups that already exist.
+//
+//   npm run routes:migrate-groups -- --dry-run
+//
+// Names are matched exactly. Routes whose group_name differs only in
+// surrounding whitespace are updated to the trimmed name.
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+const dryRun = process.argv.includes("--dry-run");
+
+async function main() {
+  const routes = await prisma.route.findMany({
+    select: { id: true, routeId: true, groupName: true },
+  });
+
+  const untrimmed = routes.filter(
+    (route) => route.groupName !== route.groupName.trim(),
+  );
+  const names = [
+    ...new Set(routes.map((route) => route.groupName.trim()).filter(Boolean)),
+  ].sort((a, b) => a.localeCompare(b));
+
+  const existing = await prisma.routeGroup.findMany({
+    select: { name: true, position: true },
+  });
+  const known = new Set(existing.map((group) => group.name));
+  const missing = names.filter((name) => !known.has(name));
+  let position = Math.max(-1, ...existing.map((group) => group.position)) + 1;
+
+  for (const name of missing) {
+    const count = routes.filter((r) => r.groupName.trim() === name).length;
+    console.log(`  + ${name} (${count} route(s))`);
+    if (!dryRun) {
+      await prisma.routeGroup.create({ data: { name, position: position++ } });
+    }
+  }
+
+  for (const route of untrimmed) {
+    console.log(
+      `  ~ ${route.routeId}: ${JSON.stringify(route.groupName)} -> ${JSON.stringify(route.groupName.trim())}`,
+    );
+    if (!dryRun) {
+      await prisma.route.update({
+        where: { id: route.id },
+        data: { groupName: route.groupName.trim() },
+      });
+    }
+  }
+
+  const verb = dryRun ? "Would create" : "Created";
+  console.log(
+    `${verb} ${missing.length} group(s) from ${names.length} distinct group name(s).`,
+  );
+  console.log(
+    `${dryRun ? "Would trim" : "Trimmed"} the group name of ${untrimmed.length} route(s).`,
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Error migrating route groups:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
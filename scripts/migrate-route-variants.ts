@@ -0,0 +1,59 @@
+// Links routes that were copied with the old "Add spiritual" button, which
+// marked them only by a `-spiritual` suffix on the route_id, to the route
+// they were copied from as spiritual variants.
+//
+//   npm run routes:migrate-variants -- --dry-run
+//
+// Routes whose parent no longer exists, or is itself a variant, are listed
+// and left alone.
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+const dryRun = process.argv.includes("--dry-run");
+
+const SPIRITUAL_SUFFIX = "-spiritual";
+
+async function main() {
+  const routes = await prisma.route.findMany({
+    select: { id: true, routeId: true, variantOf: true },
+  });
+  const byRouteId = new Map(routes.map((route) => [route.routeId, route]));
+
+  let linked = 0;
+  const skipped: string[] = [];
+  for (const route of routes) {
+    if (route.variantOf || !route.routeId.endsWith(SPIRITUAL_SUFFIX)) continue;
+    const parentId = route.routeId.slice(0, -SPIRITUAL_SUFFIX.length);
+    const parent = byRouteId.get(parentId);
+    if (!parent || parent.variantOf) {
+      skipped.push(
+        `${route.routeId} (${parent ? `${parentId} is a variant` : `no route ${parentId}`})`,
+      );
+      continue;
+    }
+
+    console.log(`  ${route.routeId} -> spiritual variant of ${parentId}`);
+    if (!dryRun) {
+      await prisma.route.update({
+        where: { id: route.id },
+        data: { variantOf: parentId, variantType: "spiritual" },
+      });
+    }
+    linked++;
+  }
+
+  console.log(
+    `${dryRun ? "Would link" : "Linked"} ${linked} route(s) to their parent.`,
+  );
+  if (skipped.length > 0) {
+    console.log(`Skipped ${skipped.length} route(s):`);
+    skipped.forEach((line) => console.log(`  - ${line}`));
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Error migrating route variants:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
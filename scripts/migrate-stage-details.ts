@@ -0,0 +1,118 @@
+// Fills the typed stage detail measurements (total_distance_m,
+// total_time_min, accumulated_ascent_m, accumulated_descent_m) from the
+// free-text strings older documents were saved with.
+//
+//   npm run routes:migrate-stage-details -- --dry-run
+//
+// Run it before deploying a version that reads the typed fields: the app
+// no longer reads the strings, so until then those stages show no
+// measures, and saving such a route loses them.
+//
+// Only the typed fields are written; the original strings are left in place
+// so values that could not be parsed can still be fixed by hand. Prisma
+// ignores them and they disappear the next time the route is saved. Values
+// like "1.100 m", where the dot may be a decimal point or a thousands
+// separator, are listed and left empty rather than guessed.
+import { PrismaClient } from "@prisma/client";
+import { hasAmbiguousDot, MEASURE_FIELDS } from "../src/lib/stageMeasures";
+
+const prisma = new PrismaClient();
+const dryRun = process.argv.includes("--dry-run");
+
+type RawRoute = {
+  _id: { $oid: string };
+  route_id?: string;
+  stages?: Array<{
+    stage_number?: number;
+    details?: Record<string, unknown>;
+  }>;
+};
+
+type Skipped = {
+  route_id: string;
+  stage_number: number | string;
+  field: string;
+  value: unknown;
+};
+
+async function main() {
+  const routes = (await prisma.route.findRaw({
+    filter: {},
+    options: { projection: { route_id: 1, stages: 1 } },
+  })) as unknown as RawRoute[];
+
+  const unparseable: Skipped[] = [];
+  const ambiguous: Skipped[] = [];
+  let updatedRoutes = 0;
+  let filledValues = 0;
+
+  for (const route of routes) {
+    const routeId = route.route_id ?? route._id.$oid;
+    const set: Record<string, number | null> = {};
+
+    (route.stages ?? []).forEach((stage, index) => {
+      const details = stage.details ?? {};
+      for (const field of MEASURE_FIELDS) {
+        if (typeof details[field.typed] === "number") continue;
+
+        const raw = details[field.display];
+        const skipped = {
+          route_id: routeId,
+          stage_number: stage.stage_number ?? `#${index + 1}`,
+          field: field.display,
+          value: raw,
+        };
+        const isAmbiguous = hasAmbiguousDot(raw);
+        const value = isAmbiguous ? null : field.parse(raw);
+        if (isAmbiguous) {
+          ambiguous.push(skipped);
+        } else if (
+          value === null &&
+          typeof raw === "string" &&
+          raw.trim() !== ""
+        ) {
+          unparseable.push(skipped);
+        }
+        set[`stages.${index}.details.${field.typed}`] = value;
+        if (value !== null) filledValues++;
+      }
+    });
+
+    if (Object.keys(set).length === 0) continue;
+    updatedRoutes++;
+    if (dryRun) continue;
+
+    await prisma.$runCommandRaw({
+      update: "routes",
+      updates: [{ q: { _id: route._id }, u: { $set: set } }],
+    });
+  }
+
+  console.log(
+    `${dryRun ? "Would update" : "Updated"} ${updatedRoutes} of ${routes.length} route(s); ${filledValues} value(s) parsed.`,
+  );
+
+  report(unparseable, "could not be parsed");
+  report(ambiguous, "are ambiguous (is the dot a decimal point?)");
+  if (unparseable.length > 0 || ambiguous.length > 0) {
+    console.log("\nThese were stored as empty; fix them in the route editor.");
+    process.exitCode = 1;
+  }
+}
+
+function report(items: Skipped[], problem: string) {
+  if (items.length === 0) return;
+  console.log(`\n${items.length} value(s) ${problem}:`);
+  for (const item of items) {
+    console.log(
+      `  - ${item.route_id} stage ${item.stage_number} ${item.field}: ${JSON.stringify(item.value)}`,
+    );
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Error migrating stage details:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
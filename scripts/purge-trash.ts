@@ -0,0 +1,22 @@
+// Purges routes that have been in the trash longer than
+// TRASH_RETENTION_DAYS (30 by default). Listing the trash does not purge,
+// so schedule this (e.g. daily); admins can also run it from the trash page.
+//
+//   npm run routes:purge-trash
+import prisma from "../src/lib/prisma";
+import { purgeExpiredRoutes } from "../src/lib/trash";
+
+async function main() {
+  const purged = await purgeExpiredRoutes();
+  console.log(`Purged ${purged.length} route(s) from the trash.`);
+  for (const routeId of purged) {
+    console.log(`  - ${routeId}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Error purging trash:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
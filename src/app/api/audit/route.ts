@@ -0,0 +1,92 @@
+import { requireRole } from "../../../lib/auth";
+import prisma from "../../../lib/prisma";
+import type { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function invalidFilter(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
+
+// `YYYY-MM-DD` dates cover the whole day, so `to` is inclusive
+function parseDate(value: string, endOfDay: boolean) {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(
+    dateOnly ? `${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}Z` : value,
+  );
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Audit entries, newest first. Filters: `route_id`, `user` (username),
+// `from` and `to` (dates or ISO timestamps). Pages with `cursor`, the
+// `next_cursor` of the previous response.
+export async function GET(request: Request) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const searchParams = new URL(request.url).searchParams;
+    const where: Prisma.AuditEntryWhereInput = {};
+
+    const routeId = searchParams.get("route_id")?.trim();
+    if (routeId) where.routeId = routeId;
+
+    const username = searchParams.get("user")?.trim();
+    if (username) where.actor = { is: { username } };
+
+    const createdAt: Prisma.DateTimeFilter = {};
+    const from = searchParams.get("from");
+    if (from) {
+      const date = parseDate(from, false);
+      if (!date) return invalidFilter(`Invalid "from" date: ${from}`);
+      createdAt.gte = date;
+    }
+    const to = searchParams.get("to");
+    if (to) {
+      const date = parseDate(to, true);
+      if (!date) return invalidFilter(`Invalid "to" date: ${to}`);
+      createdAt.lte = date;
+    }
+    if (createdAt.gte || createdAt.lte) where.createdAt = createdAt;
+
+    const limitParam = Number(searchParams.get("limit") ?? DEFAULT_LIMIT);
+    if (!Number.isInteger(limitParam) || limitParam < 1) {
+      return invalidFilter("Limit must be a positive integer");
+    }
+    const limit = Math.min(limitParam, MAX_LIMIT);
+
+    const cursor = searchParams.get("cursor");
+    if (cursor && !/^[a-f\d]{24}$/i.test(cursor)) {
+      return invalidFilter("Invalid cursor");
+    }
+
+    // one extra row tells whether there is another page
+    const entries = await prisma.auditEntry.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    const page = entries.slice(0, limit);
+
+    return NextResponse.json({
+      entries: page.map((entry) => ({
+        id: entry.id,
+        route_id: entry.routeId,
+        action: entry.action,
+        actor: entry.actor,
+        changes: entry.changes,
+        created_at: entry.createdAt,
+      })),
+      next_cursor: entries.length > limit ? page[page.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch audit log" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { verifyPassword } from "../../../../lib/password";
+import prisma from "../../../../lib/prisma";
+import {
+  getSessionMaxAge,
+  MissingAuthSecretError,
+  SESSION_COOKIE,
+  signSession,
+} from "../../../../lib/session";
+import { NextResponse } from "next/server";
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const username =
+      typeof body?.username === "string" ? body.username.trim() : "";
+    const password = typeof body?.password === "string" ? body.password : "";
+
+    const user = username
+      ? await prisma.user.findUnique({ where: { username } })
+      : null;
+    // same response for unknown users and wrong passwords
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json(
+        { success: false, error: "Invalid username or password" },
+        { status: 401 },
+      );
+    }
+
+    const sessionUser = {
+      id: user.id,
+      username: user.username,
+      name: user.name,
+      role: user.role,
+    };
+    const response = NextResponse.json({ success: true, user: sessionUser });
+    response.cookies.set(SESSION_COOKIE, await signSession(sessionUser), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: getSessionMaxAge(),
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof MissingAuthSecretError) {
+      console.error(error.message);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Sign-in is not configured on the server (AUTH_SECRET)",
+        },
+        { status: 500 },
+      );
+    }
+    console.error("Error signing in:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to sign in" },
+      { status: 500 },
+    );
+  }
+}
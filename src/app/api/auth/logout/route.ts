@@ -0,0 +1,8 @@
+import { SESSION_COOKIE } from "../../../../lib/session";
+import { NextResponse } from "next/server";
+
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
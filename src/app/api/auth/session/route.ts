@@ -0,0 +1,15 @@
+import { getSessionUser } from "../../../../lib/auth";
+import { NextResponse } from "next/server";
+
+// The signed-in user, or `{ user: null }`
+export async function GET() {
+  try {
+    return NextResponse.json({ user: await getSessionUser() });
+  } catch (error) {
+    console.error("Error reading session:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to read session" },
+      { status: 500 },
+    );
+  }
+}
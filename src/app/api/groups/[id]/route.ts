@@ -0,0 +1,102 @@
+import { groupNameConflict, validationFailed } from "../../../../lib/apiErrors";
+import { requireRole, toActor } from "../../../../lib/auth";
+import { updateGroupSchema } from "../../../../lib/groupSchema";
+import prisma from "../../../../lib/prisma";
+import { formatGroup, renameGroupOnRoutes } from "../../../../lib/routeGroups";
+import { toFieldErrors } from "../../../../lib/routeSchema";
+import { LIVE_ROUTE } from "../../../../lib/trash";
+import { NextResponse } from "next/server";
+
+type GroupContext = { params: Promise<{ id: string }> };
+
+// Prisma rejects malformed ObjectIds instead of finding nothing
+const OBJECT_ID = /^[a-f\d]{24}$/i;
+
+function groupNotFound() {
+  return NextResponse.json(
+    { success: false, error: "Group not found" },
+    { status: 404 },
+  );
+}
+
+// Renaming a group also renames it on every route filed under it
+export async function PATCH(request: Request, context: GroupContext) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+    const { id } = await context.params;
+    if (!OBJECT_ID.test(id)) return groupNotFound();
+
+    const parsed = updateGroupSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationFailed(toFieldErrors(parsed.error));
+    }
+    const { name, description, position } = parsed.data;
+
+    const existing = await prisma.routeGroup.findUnique({ where: { id } });
+    if (!existing) return groupNotFound();
+
+    const renamed = name !== undefined && name !== existing.name;
+    if (renamed) {
+      const taken = await prisma.routeGroup.findUnique({ where: { name } });
+      if (taken) return groupNameConflict(name);
+    }
+
+    const group = await prisma.routeGroup.update({
+      where: { id },
+      data: { name, description, position },
+    });
+    if (renamed) {
+      await renameGroupOnRoutes(existing.name, group.name, toActor(auth.user));
+    }
+
+    const routeCount = await prisma.route.count({
+      where: { groupName: group.name, ...LIVE_ROUTE },
+    });
+    return NextResponse.json(formatGroup(group, routeCount));
+  } catch (error) {
+    console.error("Error updating group:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update group" },
+      { status: 500 },
+    );
+  }
+}
+
+// Only empty groups can be deleted; routes in the trash still count, so
+// restoring one never leaves it in a group that no longer exists
+export async function DELETE(_request: Request, context: GroupContext) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+    const { id } = await context.params;
+    if (!OBJECT_ID.test(id)) return groupNotFound();
+
+    const group = await prisma.routeGroup.findUnique({ where: { id } });
+    if (!group) return groupNotFound();
+
+    const routeCount = await prisma.route.count({
+      where: { groupName: group.name },
+    });
+    if (routeCount > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Group "${group.name}" still has ${routeCount} route(s)`,
+          code: "group_in_use",
+          route_count: routeCount,
+        },
+        { status: 409 },
+      );
+    }
+
+    await prisma.routeGroup.delete({ where: { id } });
+    return NextResponse.json({ success: true, deleted_group_id: id });
+  } catch (error) {
+    console.error("Error deleting group:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete group" },
+      { status: 500 },
+    );
+  }
+}
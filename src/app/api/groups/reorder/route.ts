@@ -0,0 +1,44 @@
+import { validationFailed } from "../../../../lib/apiErrors";
+import { requireRole } from "../../../../lib/auth";
+import { reorderGroupsSchema } from "../../../../lib/groupSchema";
+import prisma from "../../../../lib/prisma";
+import { listGroups } from "../../../../lib/routeGroups";
+import { toFieldErrors } from "../../../../lib/routeSchema";
+import { NextResponse } from "next/server";
+
+// Sets the display order from a list of every group id, first to last
+export async function POST(request: Request) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const parsed = reorderGroupsSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationFailed(toFieldErrors(parsed.error));
+    }
+    const { ids } = parsed.data;
+
+    const groups = await listGroups();
+    const known = new Set(groups.map((group) => group.id));
+    if (
+      ids.length !== known.size ||
+      new Set(ids).size !== ids.length ||
+      !ids.every((id) => known.has(id))
+    ) {
+      return validationFailed([
+        { path: "ids", message: "List every group exactly once" },
+      ]);
+    }
+
+    for (const [position, id] of ids.entries()) {
+      await prisma.routeGroup.update({ where: { id }, data: { position } });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error reordering groups:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to reorder groups" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { groupNameConflict, validationFailed } from "../../../lib/apiErrors";
+import { requireRole } from "../../../lib/auth";
+import { createGroupSchema } from "../../../lib/groupSchema";
+import prisma from "../../../lib/prisma";
+import {
+  formatGroup,
+  listGroups,
+  nextGroupPosition,
+} from "../../../lib/routeGroups";
+import { toFieldErrors } from "../../../lib/routeSchema";
+import { LIVE_ROUTE } from "../../../lib/trash";
+import { NextResponse } from "next/server";
+
+// Groups in display order, with how many routes each holds
+export async function GET() {
+  try {
+    const [groups, counts] = await Promise.all([
+      listGroups(),
+      prisma.route.groupBy({
+        by: ["groupName"],
+        where: LIVE_ROUTE,
+        _count: { _all: true },
+      }),
+    ]);
+    const countByName = new Map(
+      counts.map((count) => [count.groupName, count._count._all]),
+    );
+
+    return NextResponse.json({
+      groups: groups.map((group) =>
+        formatGroup(group, countByName.get(group.name) ?? 0),
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching groups:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch groups" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const parsed = createGroupSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationFailed(toFieldErrors(parsed.error));
+    }
+    const { name, description, position } = parsed.data;
+
+    const existing = await prisma.routeGroup.findUnique({ where: { name } });
+    if (existing) return groupNameConflict(name);
+
+    const group = await prisma.routeGroup.create({
+      data: {
+        name,
+        description,
+        position: position ?? (await nextGroupPosition()),
+      },
+    });
+    return NextResponse.json(formatGroup(group, 0), { status: 201 });
+  } catch (error) {
+    console.error("Error creating group:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create group" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  isUniqueConstraintError,
+  routeIdConflict,
+  routeInTrash,
+  validationFailed,
+} from "../../../../../lib/apiErrors";
+import { recordAudit, summarizeChanges } from "../../../../../lib/audit";
+import { requireRole, toActor } from "../../../../../lib/auth";
+import { parseGpx, toGpxXml } from "../../../../../lib/gpx";
+import prisma from "../../../../../lib/prisma";
+import { recordRevision } from "../../../../../lib/revisions";
+import { formatRoute, toRouteData } from "../../../../../lib/routeFormat";
+import { reverseRoute } from "../../../../../lib/routeReverse";
+import {
+  routePayloadSchema,
+  toFieldErrors,
+  VARIANT_LABELS,
+} from "../../../../../lib/routeSchema";
+import {
+  parentTracking,
+  variantErrors,
+} from "../../../../../lib/routeVariants";
+import { routeVersion, toETag } from "../../../../../lib/routeVersion";
+import { LIVE_ROUTE } from "../../../../../lib/trash";
+import { NextResponse } from "next/server";
+
+type ReverseContext = { params: Promise<{ id: string }> };
+
+function reversedFileName(fileName: string) {
+  return fileName.replace(/(\.gpx)?$/i, (ext) => `-reversed${ext || ".gpx"}`);
+}
+
+// Creates the route walked the other way as a "reverse" variant of this one
+// (see src/lib/routeReverse.ts), with each stored stage track reversed too.
+// The body may name the new route (`route_id`, `route_name`); by default it
+// is `<route_id>-reverse`.
+export async function POST(request: Request, context: ReverseContext) {
+  let requestedRouteId = "";
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const params = await context.params;
+    const source = await prisma.route.findFirst({
+      where: { routeId: params.id, ...LIVE_ROUTE },
+    });
+    if (!source) {
+      return NextResponse.json(
+        { success: false, error: "Route not found" },
+        { status: 404 },
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const {
+      route: reversed,
+      renumbered,
+      warnings,
+    } = reverseRoute(formatRoute(source));
+    const gpxFiles = await prisma.stageGpx.findMany({
+      where: { routeDbId: source.id },
+    });
+    const reversedFiles = Object.fromEntries(
+      gpxFiles.map((gpx) => [
+        renumbered[gpx.stageNumber],
+        reversedFileName(gpx.fileName),
+      ]),
+    );
+
+    const parsed = routePayloadSchema.safeParse({
+      ...reversed,
+      route_id: body?.route_id || `${source.routeId}-reverse`,
+      route_name:
+        body?.route_name || `${source.routeName} (${VARIANT_LABELS.reverse})`,
+      variant_of: source.routeId,
+      variant_type: "reverse",
+      // stages point at their reversed track where one is stored
+      stages: reversed.stages.map((stage) => ({
+        ...stage,
+        gpx: reversedFiles[stage.stage_number] ?? stage.gpx,
+      })),
+    });
+    if (!parsed.success) {
+      return validationFailed(toFieldErrors(parsed.error));
+    }
+    const data = toRouteData(parsed.data);
+    requestedRouteId = data.routeId;
+
+    const parentErrors = await variantErrors(parsed.data);
+    if (parentErrors) return validationFailed(parentErrors);
+
+    const existing = await prisma.route.findUnique({
+      where: { routeId: data.routeId },
+      select: { id: true, deletedAt: true },
+    });
+    if (existing) {
+      return existing.deletedAt
+        ? routeInTrash(data.routeId)
+        : routeIdConflict(data.routeId);
+    }
+
+    const created = await prisma.route.create({
+      data: {
+        ...data,
+        ...(await parentTracking(null, data)),
+        version: 1,
+      },
+    });
+
+    for (const gpx of gpxFiles) {
+      const points = parseGpx(gpx.content).points.reverse();
+      const fileName = reversedFileName(gpx.fileName);
+      await prisma.stageGpx.create({
+        data: {
+          routeDbId: created.id,
+          stageNumber: renumbered[gpx.stageNumber],
+          fileName,
+          content: toGpxXml(points, fileName.replace(/\.gpx$/i, "")),
+          pointCount: gpx.pointCount,
+          bounds: gpx.bounds,
+        },
+      });
+    }
+
+    const actor = toActor(auth.user);
+    await recordRevision(created, "create", actor);
+    const changes = summarizeChanges(null, created);
+    changes.unshift({
+      path: "duplicated_from",
+      before: null,
+      after: source.routeId,
+    });
+    await recordAudit(created.routeId, "duplicated", actor, changes);
+
+    const version = routeVersion(created);
+    return NextResponse.json(
+      {
+        success: true,
+        route: { ...formatRoute(created), version },
+        warnings,
+      },
+      { headers: { ETag: toETag(version) } },
+    );
+  } catch (error) {
+    // Lost a race with a concurrent create of the same route_id
+    if (isUniqueConstraintError(error)) {
+      return routeIdConflict(requestedRouteId);
+    }
+    console.error("Error reversing route:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to reverse route" },
+      { status: 500 },
+    );
+  }
+}
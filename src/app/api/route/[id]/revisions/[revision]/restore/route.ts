@@ -0,0 +1,165 @@
+import {
+  isUniqueConstraintError,
+  routeIdConflict,
+  validationFailed,
+  versionConflict,
+  versionRequired,
+} from "../../../../../../../lib/apiErrors";
+import { recordAudit, summarizeChanges } from "../../../../../../../lib/audit";
+import { requireRole, toActor } from "../../../../../../../lib/auth";
+import prisma from "../../../../../../../lib/prisma";
+import { recordRevision } from "../../../../../../../lib/revisions";
+import { unknownGroupErrors } from "../../../../../../../lib/routeGroups";
+import {
+  formatRoute,
+  toRouteData,
+  type RouteRecord,
+} from "../../../../../../../lib/routeFormat";
+import {
+  parentTracking,
+  variantErrors,
+} from "../../../../../../../lib/routeVariants";
+import {
+  parseIfMatch,
+  routeVersion,
+  updateAtVersion,
+} from "../../../../../../../lib/routeVersion";
+import {
+  routePayloadSchema,
+  toFieldErrors,
+} from "../../../../../../../lib/routeSchema";
+import { NextResponse } from "next/server";
+
+type RevisionContext = {
+  params: Promise<{ id: string; revision: string }>;
+};
+
+// Writes a revision's snapshot back as the current route, taking it out of
+// the trash or recreating it if it was purged. The restore itself becomes a new revision.
+// Like a PUT, it must name the version of the route it replaces in
+// `If-Match` (any value when the route was purged).
+export async function POST(request: Request, context: RevisionContext) {
+  const params = await context.params;
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const expectedVersion = parseIfMatch(request.headers.get("If-Match"));
+    if (expectedVersion === null) {
+      return versionRequired();
+    }
+
+    const revisionNumber = Number(params.revision);
+    if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+      return NextResponse.json(
+        { success: false, error: "Invalid revision number" },
+        { status: 400 },
+      );
+    }
+
+    const revision = await prisma.routeRevision.findUnique({
+      where: {
+        routeId_revision: { routeId: params.id, revision: revisionNumber },
+      },
+    });
+
+    if (!revision) {
+      return NextResponse.json(
+        { success: false, error: "Revision not found" },
+        { status: 404 },
+      );
+    }
+
+    // Snapshots taken before a rename carry the old route_id
+    const parsed = routePayloadSchema.safeParse({
+      ...(revision.snapshot as Record<string, unknown>),
+      route_id: params.id,
+    });
+    if (!parsed.success) {
+      return validationFailed(toFieldErrors(parsed.error));
+    }
+    const route = parsed.data;
+
+    const existing = await prisma.route.findUnique({
+      where: { routeId: params.id },
+    });
+
+    // The snapshot may name a group since removed, or a parent since
+    // deleted; checked as on a save, so only when they differ from now
+    if (!existing || route.group_name !== existing.groupName) {
+      const groupErrors = await unknownGroupErrors(route.group_name);
+      if (groupErrors) return validationFailed(groupErrors);
+    }
+    if (
+      !existing ||
+      (route.variant_of ?? null) !== existing.variantOf ||
+      (route.variant_type ?? null) !== existing.variantType
+    ) {
+      const parentErrors = await variantErrors(
+        route,
+        existing ? params.id : undefined,
+      );
+      if (parentErrors) return validationFailed(parentErrors);
+    }
+
+    const data = toRouteData(route);
+    let restored: RouteRecord;
+    if (existing) {
+      const currentVersion = routeVersion(existing);
+      if (expectedVersion !== "any" && expectedVersion !== currentVersion) {
+        return versionConflict(currentVersion, formatRoute(existing));
+      }
+      const result = await updateAtVersion(existing, {
+        ...data,
+        ...(await parentTracking(existing, data)),
+        deletedAt: null,
+        deletedBy: null,
+      });
+      if (!result.route) {
+        return NextResponse.json(
+          { success: false, error: "Route not found" },
+          { status: 404 },
+        );
+      }
+      if (!result.saved) {
+        return versionConflict(
+          routeVersion(result.route),
+          formatRoute(result.route),
+        );
+      }
+      restored = result.route;
+    } else {
+      restored = await prisma.route.create({
+        data: {
+          ...data,
+          ...(await parentTracking(null, data)),
+          version: 1,
+        },
+      });
+    }
+    const actor = toActor(auth.user);
+    await recordRevision(restored, "restore", actor);
+    await recordAudit(
+      restored.routeId,
+      "restored",
+      actor,
+      summarizeChanges(existing, restored),
+    );
+
+    return NextResponse.json({
+      success: true,
+      restored_revision: revision.revision,
+      route: { ...formatRoute(restored), version: routeVersion(restored) },
+    });
+  } catch (error) {
+    // Lost a race with a concurrent create of the same route_id
+    if (isUniqueConstraintError(error)) {
+      return routeIdConflict(params.id);
+    }
+    console.error("Error restoring revision:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to restore revision" },
+      { status: 500 },
+    );
+  }
+}
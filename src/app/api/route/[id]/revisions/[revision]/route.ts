@@ -0,0 +1,51 @@
+import prisma from "../../../../../../lib/prisma";
+import { requireHistoryAccess } from "../../../../../../lib/revisions";
+import { NextResponse } from "next/server";
+
+type RevisionContext = {
+  params: Promise<{ id: string; revision: string }>;
+};
+
+// A single revision including the full route snapshot
+export async function GET(_request: Request, context: RevisionContext) {
+  try {
+    const params = await context.params;
+    const access = await requireHistoryAccess(params.id);
+    if (access.error) return access.error;
+
+    const revisionNumber = Number(params.revision);
+    if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+      return NextResponse.json(
+        { success: false, error: "Invalid revision number" },
+        { status: 400 },
+      );
+    }
+
+    const revision = await prisma.routeRevision.findUnique({
+      where: {
+        routeId_revision: { routeId: params.id, revision: revisionNumber },
+      },
+    });
+
+    if (!revision) {
+      return NextResponse.json(
+        { success: false, error: "Revision not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      route_id: revision.routeId,
+      revision: revision.revision,
+      action: revision.action,
+      created_at: revision.createdAt,
+      snapshot: revision.snapshot,
+    });
+  } catch (error) {
+    console.error("Error fetching revision:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch revision" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import prisma from "../../../../../lib/prisma";
+import { requireHistoryAccess } from "../../../../../lib/revisions";
+import { routeVersion } from "../../../../../lib/routeVersion";
+import { NextResponse } from "next/server";
+
+// Revision metadata for a route, newest first. Also works, for editors, on
+// deleted routes, whose history is kept so they can be restored. `version`
+// is the route's current version, sent back as `If-Match` on restore (null
+// once the route is purged).
+export async function GET(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const params = await context.params;
+    const access = await requireHistoryAccess(params.id);
+    if (access.error) return access.error;
+
+    const revisions = await prisma.routeRevision.findMany({
+      where: { routeId: params.id },
+      orderBy: { revision: "desc" },
+    });
+
+    if (revisions.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "No revisions found for this route" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      route_id: params.id,
+      version: access.route ? routeVersion(access.route) : null,
+      revisions: revisions.map((r) => {
+        const snapshot = r.snapshot as {
+          route_name?: string;
+          stages?: unknown[];
+        } | null;
+        return {
+          revision: r.revision,
+          action: r.action,
+          created_at: r.createdAt,
+          // revisions recorded before sign-in existed have no actor
+          actor: r.actor?.username ?? null,
+          route_name: snapshot?.route_name ?? "",
+          stage_count: snapshot?.stages?.length ?? 0,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch revisions" },
+      { status: 500 },
+    );
+  }
+}
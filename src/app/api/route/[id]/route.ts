@@ -1,79 +1,43 @@
+import {
+  isUniqueConstraintError,
+  routeIdConflict,
+  routeInTrash,
+  validationFailed,
+  versionConflict,
+  versionRequired,
+} from "../../../../lib/apiErrors";
+import { recordAudit, summarizeChanges } from "../../../../lib/audit";
+import { requireRole, toActor } from "../../../../lib/auth";
+import {
+  applyJsonPatch,
+  jsonPatchSchema,
+  JsonPatchError,
+} from "../../../../lib/jsonPatch";
+import { applyMergePatch } from "../../../../lib/mergePatch";
 import prisma from "../../../../lib/prisma";
-import type { Prisma } from "@prisma/client";
+import { recordRevision, renameRevisions } from "../../../../lib/revisions";
+import { unknownGroupErrors } from "../../../../lib/routeGroups";
+import {
+  formatRoute,
+  toRouteData,
+  type RouteRecord,
+} from "../../../../lib/routeFormat";
+import { routePayloadSchema, toFieldErrors } from "../../../../lib/routeSchema";
+import {
+  parentTracking,
+  relinkVariants,
+  variantErrors,
+} from "../../../../lib/routeVariants";
+import {
+  parseIfMatch,
+  routeVersion,
+  toETag,
+  updateAtVersion,
+} from "../../../../lib/routeVersion";
+import { dropStaleRouteMeasures } from "../../../../lib/stageMeasures";
+import { LIVE_ROUTE, purgeDate } from "../../../../lib/trash";
 import { NextResponse } from "next/server";
 
-function normalizeAvgDailyDistance(
-  items: unknown,
-): Array<Record<string, unknown>> {
-  if (!Array.isArray(items)) {
-    return [];
-  }
-
-  return items.map((item) => {
-    const record = item as Record<string, unknown>;
-    const directLabel = typeof record.label === "string" ? record.label : null;
-    const rangeValue =
-      typeof record.range_value === "string" ? record.range_value : null;
-    const dynamicKey = Object.keys(record).find((key) =>
-      key.startsWith("avg_daily_distance_"),
-    );
-    const dynamicLabel =
-      dynamicKey && typeof record[dynamicKey] === "string"
-        ? (record[dynamicKey] as string)
-        : null;
-
-    return {
-      label: directLabel || rangeValue || dynamicLabel || "",
-      minimum_km: record.minimum_km,
-      minimum_mile: record.minimum_mile,
-      maximum_km: record.maximum_km,
-      maximum_mile: record.maximum_mile,
-      days: record.days,
-    } as Record<string, unknown>;
-  });
-}
-
-function formatRoute(route: Prisma.RouteGetPayload<Prisma.RouteDefaultArgs>) {
-  return {
-    route_id: route.routeId,
-    group_name: route.groupName,
-    route_name: route.routeName,
-    avg_daily_distance: normalizeAvgDailyDistance(route.avgDailyDistance),
-    starting_point: route.startingPoint || [],
-    stages: route.stages.map((stage) => ({
-      stage_number: stage.stageNumber,
-      stage_name: stage.stageName,
-      distance_km: stage.distanceKm,
-      distance_miles: stage.distanceMiles,
-      gpx: stage.gpx,
-      details: {
-        total_distance: stage.details.totalDistance,
-        total_time: stage.details.totalTime,
-        accumulated_ascent: stage.details.accumulatedAscent,
-        accumulated_descent: stage.details.accumulatedDescent,
-        walking_surface: stage.details.walkingSurface,
-        elevation_profile: stage.details.elevationProfile,
-        challenges: stage.details.challenges,
-        highlights: stage.details.highlights,
-      },
-      facilities: stage.facilities.map((f) => ({
-        index: f.index,
-        name: f.name,
-        distance: f.distance,
-        services: f.services,
-      })),
-      accommodations: stage.accommodations.map((a) => ({
-        name: a.name,
-        price_category: a.priceCategory,
-        contact_url: a.contactUrl,
-        contact_phone: a.contactPhone,
-        lat: a.lat,
-        long: a.long,
-      })),
-    })),
-  };
-}
-
 export async function GET(
   _request: Request,
   context: { params: Promise<{ id: string }> },
@@ -82,7 +46,7 @@ export async function GET(
     const params = await context.params;
     const targetRouteId = params.id;
     const route = await prisma.route.findFirst({
-      where: { routeId: targetRouteId },
+      where: { routeId: targetRouteId, ...LIVE_ROUTE },
     });
 
     if (!route) {
@@ -92,7 +56,11 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(formatRoute(route));
+    const version = routeVersion(route);
+    return NextResponse.json(
+      { ...formatRoute(route), version },
+      { headers: { ETag: toETag(version) } },
+    );
   } catch (error) {
     console.error("Error fetching route:", error);
     return NextResponse.json(
@@ -102,107 +70,177 @@ export async function GET(
   }
 }
 
+// The 412 response when `expectedVersion` (from `If-Match`) is stale
+function checkVersion(existing: RouteRecord, expectedVersion: number | "any") {
+  const currentVersion = routeVersion(existing);
+  if (expectedVersion !== "any" && expectedVersion !== currentVersion) {
+    return versionConflict(currentVersion, formatRoute(existing));
+  }
+  return null;
+}
+
+// Validates `incoming`, a whole route in export shape, and saves it over
+// `existing`: the checks and bookkeeping shared by PUT and PATCH
+async function saveRoute(
+  existing: RouteRecord,
+  incoming: unknown,
+  actor: { id: string; username: string },
+) {
+  const parsed = routePayloadSchema.safeParse(incoming);
+  if (!parsed.success) {
+    return validationFailed(toFieldErrors(parsed.error));
+  }
+  const route = parsed.data;
+  const targetRouteId = existing.routeId;
+  const nextRouteId = route.route_id;
+
+  // Routes filed under a group that has since gone keep it until changed
+  if (route.group_name !== existing.groupName) {
+    const groupErrors = await unknownGroupErrors(route.group_name);
+    if (groupErrors) return validationFailed(groupErrors);
+  }
+  // Likewise variants whose parent is in the trash
+  if (
+    (route.variant_of ?? null) !== existing.variantOf ||
+    (route.variant_type ?? null) !== existing.variantType
+  ) {
+    const parentErrors = await variantErrors(route, targetRouteId);
+    if (parentErrors) return validationFailed(parentErrors);
+  }
+
+  if (nextRouteId !== targetRouteId) {
+    const taken = await prisma.route.findUnique({
+      where: { routeId: nextRouteId },
+      select: { id: true, deletedAt: true },
+    });
+    if (taken) {
+      return taken.deletedAt
+        ? routeInTrash(nextRouteId)
+        : routeIdConflict(nextRouteId);
+    }
+  }
+
+  // Conditional on the version so a write landing between the check and
+  // this update is not overwritten either
+  const data = toRouteData(route);
+  let result: Awaited<ReturnType<typeof updateAtVersion>>;
+  try {
+    result = await updateAtVersion(existing, {
+      ...data,
+      ...(await parentTracking(existing, data)),
+    });
+  } catch (error) {
+    // Lost a race with a concurrent write that claimed the new route_id
+    if (isUniqueConstraintError(error)) {
+      return routeIdConflict(nextRouteId);
+    }
+    throw error;
+  }
+  const updated = result.route;
+  if (!updated) {
+    return NextResponse.json(
+      { success: false, error: "Route not found" },
+      { status: 404 },
+    );
+  }
+  if (!result.saved) {
+    return versionConflict(routeVersion(updated), formatRoute(updated));
+  }
+  await renameRevisions(targetRouteId, nextRouteId);
+  await relinkVariants(targetRouteId, nextRouteId, actor);
+  await recordRevision(updated, "update", actor);
+  await recordAudit(
+    updated.routeId,
+    "updated",
+    actor,
+    summarizeChanges(existing, updated),
+  );
+
+  const version = routeVersion(updated);
+  return NextResponse.json(
+    { ...formatRoute(updated), version },
+    { headers: { ETag: toETag(version) } },
+  );
+}
+
+// Replaces the whole route; fields missing from the body get their
+// defaults. Use PATCH to change only some fields.
 export async function PUT(
   request: Request,
   context: { params: Promise<{ id: string }> },
 ) {
   try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
     const params = await context.params;
+    // Saves must name the version they were based on, so concurrent edits
+    // are rejected instead of silently overwriting each other
+    const expectedVersion = parseIfMatch(request.headers.get("If-Match"));
+    if (expectedVersion === null) {
+      return versionRequired();
+    }
     const body = await request.json();
 
-    type FacilityIn = {
-      index?: number;
-      name?: string | null;
-      distance?: string | null;
-      services?: string[];
-    };
+    const incomingRoute = Array.isArray(body?.routes) ? body.routes[0] : body;
 
-    type AccommodationIn = {
-      name?: string;
-      price_category?: string;
-      contact_url?: string | null;
-      lat?: number | null;
-      long?: number | null;
-      contact_phone?: string | null;
-    };
+    // Find existing route by its unique `routeId`, then update by `id`
+    const targetRouteId = params.id;
+    const existing = await prisma.route.findFirst({
+      where: { routeId: targetRouteId, ...LIVE_ROUTE },
+    });
 
-    type StageIn = {
-      stage_number?: number;
-      stage_name?: string;
-      distance_km?: number;
-      distance_miles?: number;
-      gpx?: string;
-      details?: {
-        total_distance?: number;
-        total_time?: string;
-        accumulated_ascent?: number;
-        accumulated_descent?: number;
-        walking_surface?: string[];
-        elevation_profile?: string;
-        challenges?: string[];
-        highlights?: string[];
-      };
-      facilities?: FacilityIn[];
-      accommodations?: AccommodationIn[];
-    };
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Route not found" },
+        { status: 404 },
+      );
+    }
 
-    type IncomingRoute = {
-      route_id?: string;
-      group_name?: string;
-      route_name?: string;
-      stages?: StageIn[];
-      avg_daily_distance?: Array<Record<string, unknown>>;
-      starting_point?: Array<Record<string, unknown>>;
-    };
+    const conflict = checkVersion(existing, expectedVersion);
+    if (conflict) return conflict;
 
-    const incomingRoute: IncomingRoute = Array.isArray(body?.routes)
-      ? (body.routes[0] as IncomingRoute)
-      : (body as IncomingRoute);
+    return await saveRoute(
+      existing,
+      {
+        ...incomingRoute,
+        route_id: incomingRoute?.route_id ?? targetRouteId,
+      },
+      toActor(auth.user),
+    );
+  } catch (error) {
+    console.error("Error updating route:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update route" },
+      { status: 500 },
+    );
+  }
+}
 
-    const targetRouteId = params.id;
-    const nextRouteId = incomingRoute.route_id ?? targetRouteId;
+// Partial update over the export shape, applied to the route as stored and
+// validated as a whole before saving. The body is either a JSON Patch
+// (RFC 6902; `application/json-patch+json`, or any JSON array) or a JSON
+// merge patch (RFC 7396; `application/merge-patch+json` or plain JSON),
+// e.g. `{ "route_name": "..." }` leaves the stages alone. Stage measures can
+// be patched through either their typed or display form.
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
 
-    const formattedStages = (incomingRoute.stages || []).map(
-      (stage: StageIn) => ({
-        stageNumber: stage.stage_number ?? 0,
-        stageName: stage.stage_name ?? "",
-        distanceKm: stage.distance_km ?? 0,
-        distanceMiles: stage.distance_miles ?? 0,
-        gpx: stage.gpx ?? "",
-        details: {
-          totalDistance: stage.details?.total_distance ?? "",
-          totalTime: stage.details?.total_time ?? "",
-          accumulatedAscent: stage.details?.accumulated_ascent ?? "",
-          accumulatedDescent: stage.details?.accumulated_descent ?? "",
-          walkingSurface: stage.details?.walking_surface || [],
-          elevationProfile: stage.details?.elevation_profile ?? "",
-          challenges: stage.details?.challenges || [],
-          highlights: stage.details?.highlights || [],
-        },
-        facilities: (stage.facilities || []).map((f: FacilityIn) => ({
-          index: f.index ?? 0,
-          name: f.name ?? "",
-          distance: f.distance ?? "",
-          services: f.services || [],
-        })),
-        accommodations: (stage.accommodations || []).map(
-          (a: AccommodationIn) => ({
-            name: a.name ?? "",
-            priceCategory: a.price_category ?? "",
-            contactUrl: a.contact_url ?? null,
-            contactPhone: a.contact_phone ?? null,
-            lat: a.lat ?? null,
-            long: a.long ?? null,
-          }),
-        ),
-      }),
-    );
+    const params = await context.params;
+    const expectedVersion = parseIfMatch(request.headers.get("If-Match"));
+    if (expectedVersion === null) {
+      return versionRequired();
+    }
+    const body = await request.json();
 
-    // Find existing route by `routeId` then update by unique `id` to ensure a single-document update
     const existing = await prisma.route.findFirst({
-      where: { routeId: targetRouteId },
+      where: { routeId: params.id, ...LIVE_ROUTE },
     });
-
     if (!existing) {
       return NextResponse.json(
         { success: false, error: "Route not found" },
@@ -210,25 +248,46 @@ export async function PUT(
       );
     }
 
-    const updated = await prisma.route.update({
-      where: { id: existing.id },
-      data: {
-        routeId: nextRouteId,
-        routeName: incomingRoute.route_name ?? "",
-        groupName: incomingRoute.group_name ?? "",
-        avgDailyDistance: (incomingRoute.avg_daily_distance ||
-          []) as Prisma.InputJsonValue[],
-        startingPoint: (incomingRoute.starting_point ||
-          []) as Prisma.InputJsonValue[],
-        stages: formattedStages as unknown as Prisma.StageCreateInput[],
-      },
-    });
+    // Checked before patching, so `test` operations see the version the
+    // client meant
+    const conflict = checkVersion(existing, expectedVersion);
+    if (conflict) return conflict;
 
-    return NextResponse.json(formatRoute(updated));
+    const current = formatRoute(existing);
+    const contentType = request.headers.get("content-type") || "";
+    let patched: unknown;
+    if (contentType.includes("json-patch") || Array.isArray(body)) {
+      const patch = jsonPatchSchema.safeParse(body);
+      if (!patch.success) {
+        return validationFailed(toFieldErrors(patch.error));
+      }
+      patched = applyJsonPatch(current, patch.data);
+    } else {
+      if (typeof body !== "object" || body === null) {
+        return NextResponse.json(
+          { success: false, error: "Merge patch must be a JSON object" },
+          { status: 400 },
+        );
+      }
+      patched = applyMergePatch(current, body);
+    }
+
+    return await saveRoute(
+      existing,
+      dropStaleRouteMeasures(current, patched),
+      toActor(auth.user),
+    );
   } catch (error) {
-    console.error("Error updating route:", error);
+    if (error instanceof JsonPatchError) {
+      // a failed `test` means the route is not in the state the patch expects
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.test ? 409 : 422 },
+      );
+    }
+    console.error("Error patching route:", error);
     return NextResponse.json(
-      { success: false, error: "Failed to update route" },
+      { success: false, error: "Failed to patch route" },
       { status: 500 },
     );
   }
@@ -239,11 +298,14 @@ export async function DELETE(
   context: { params: Promise<{ id: string }> },
 ) {
   try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
     const params = await context.params;
     const targetRouteId = params.id;
 
     const existing = await prisma.route.findFirst({
-      where: { routeId: targetRouteId },
+      where: { routeId: targetRouteId, ...LIVE_ROUTE },
     });
 
     if (!existing) {
@@ -253,13 +315,35 @@ export async function DELETE(
       );
     }
 
-    await prisma.route.delete({
-      where: { id: existing.id },
+    // Moves the route to the trash; it is purged after the retention period
+    const actor = toActor(auth.user);
+    const deletedAt = new Date();
+    const trashed = await updateAtVersion(existing, {
+      deletedAt,
+      deletedBy: actor,
     });
+    if (!trashed.route) {
+      return NextResponse.json(
+        { success: false, error: "Route not found" },
+        { status: 404 },
+      );
+    }
+    if (!trashed.saved) {
+      return versionConflict(
+        routeVersion(trashed.route),
+        formatRoute(trashed.route),
+      );
+    }
+    // the snapshot is what a restore brings back
+    await recordRevision(existing, "delete", actor);
+    await recordAudit(existing.routeId, "deleted", actor, [
+      { path: "deleted_at", before: null, after: deletedAt.toISOString() },
+    ]);
 
     return NextResponse.json({
       success: true,
       deleted_route_id: targetRouteId,
+      purge_at: purgeDate(deletedAt),
     });
   } catch (error) {
     console.error("Error deleting route:", error);
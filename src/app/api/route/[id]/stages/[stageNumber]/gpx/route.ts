@@ -0,0 +1,320 @@
+import { versionConflict } from "../../../../../../../lib/apiErrors";
+import { recordAudit, summarizeChanges } from "../../../../../../../lib/audit";
+import { requireRole, toActor } from "../../../../../../../lib/auth";
+import prisma from "../../../../../../../lib/prisma";
+import { recordRevision } from "../../../../../../../lib/revisions";
+import {
+  formatRoute,
+  type RouteRecord,
+} from "../../../../../../../lib/routeFormat";
+import {
+  routeVersion,
+  updateAtVersion,
+} from "../../../../../../../lib/routeVersion";
+import { GpxParseError, parseGpx } from "../../../../../../../lib/gpx";
+import { LIVE_ROUTE } from "../../../../../../../lib/trash";
+import {
+  computeElevationProfile,
+  computeTrackStats,
+  toStoredProfile,
+} from "../../../../../../../lib/trackStats";
+import type { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+type GpxContext = {
+  params: Promise<{ id: string; stageNumber: string }>;
+};
+
+// The file is stored in the StageGpx document, which MongoDB caps at 16 MB
+const MAX_GPX_BYTES = 15 * 1024 * 1024;
+
+async function resolveTarget(context: GpxContext) {
+  const params = await context.params;
+  const stageNumber = Number(params.stageNumber);
+  if (!Number.isInteger(stageNumber) || stageNumber < 1) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: "Stage number must be a positive integer" },
+        { status: 400 },
+      ),
+    };
+  }
+
+  const route = await prisma.route.findFirst({
+    where: { routeId: params.id, ...LIVE_ROUTE },
+  });
+  if (!route) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: "Route not found" },
+        { status: 404 },
+      ),
+    };
+  }
+
+  return { route, stageNumber };
+}
+
+// Updates one stage of `route`, conditional on the version it was read at
+async function updateStage(
+  route: RouteRecord,
+  stageNumber: number,
+  data: Prisma.StageUpdateInput,
+) {
+  const result = await updateAtVersion(route, {
+    stages: { updateMany: { where: { stageNumber }, data } },
+  });
+  if (!result.route) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: "Route not found" },
+        { status: 404 },
+      ),
+    };
+  }
+  if (!result.saved) {
+    return {
+      error: versionConflict(
+        routeVersion(result.route),
+        formatRoute(result.route),
+      ),
+    };
+  }
+  return { route: result.route };
+}
+
+function formatSummary(gpx: {
+  stageNumber: number;
+  fileName: string;
+  content: string;
+  pointCount: number;
+  bounds: { minLat: number; minLon: number; maxLat: number; maxLon: number };
+  uploadedAt: Date;
+}) {
+  const { points } = parseGpx(gpx.content);
+  return {
+    stage_number: gpx.stageNumber,
+    file_name: gpx.fileName,
+    point_count: gpx.pointCount,
+    bounds: {
+      min_lat: gpx.bounds.minLat,
+      min_lon: gpx.bounds.minLon,
+      max_lat: gpx.bounds.maxLat,
+      max_lon: gpx.bounds.maxLon,
+    },
+    // distance and smoothed ascent/descent derived from the track
+    stats: computeTrackStats(points),
+    profile: computeElevationProfile(points),
+    uploaded_at: gpx.uploadedAt,
+  };
+}
+
+// Serves the original file, or its parsed summary with `?summary=1`
+export async function GET(request: Request, context: GpxContext) {
+  try {
+    const target = await resolveTarget(context);
+    if (target.error) return target.error;
+
+    const gpx = await prisma.stageGpx.findUnique({
+      where: {
+        routeDbId_stageNumber: {
+          routeDbId: target.route.id,
+          stageNumber: target.stageNumber,
+        },
+      },
+    });
+    if (!gpx) {
+      return NextResponse.json(
+        { success: false, error: "No GPX uploaded for this stage" },
+        { status: 404 },
+      );
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    if (searchParams.get("summary") === "1") {
+      return NextResponse.json(formatSummary(gpx));
+    }
+
+    return new NextResponse(gpx.content, {
+      headers: {
+        "Content-Type": "application/gpx+xml",
+        "Content-Disposition": `attachment; filename="${encodeURIComponent(gpx.fileName)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching GPX:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch GPX" },
+      { status: 500 },
+    );
+  }
+}
+
+// Accepts multipart form data with a `file` field, or a raw GPX body
+// named by `?file_name=`
+export async function PUT(request: Request, context: GpxContext) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const target = await resolveTarget(context);
+    if (target.error) return target.error;
+    if (
+      !target.route.stages.some((s) => s.stageNumber === target.stageNumber)
+    ) {
+      return NextResponse.json(
+        { success: false, error: `Stage ${target.stageNumber} not found` },
+        { status: 404 },
+      );
+    }
+
+    let content: string;
+    let fileName: string;
+    const contentType = request.headers.get("content-type") || "";
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file");
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          { success: false, error: "Missing `file` field" },
+          { status: 400 },
+        );
+      }
+      if (file.size > MAX_GPX_BYTES) {
+        return NextResponse.json(
+          { success: false, error: "GPX file is too large" },
+          { status: 413 },
+        );
+      }
+      content = await file.text();
+      fileName = file.name;
+    } else {
+      content = await request.text();
+      fileName =
+        new URL(request.url).searchParams.get("file_name") ||
+        `stage-${target.stageNumber}.gpx`;
+      if (Buffer.byteLength(content) > MAX_GPX_BYTES) {
+        return NextResponse.json(
+          { success: false, error: "GPX file is too large" },
+          { status: 413 },
+        );
+      }
+    }
+
+    const { points, bounds } = parseGpx(content);
+    const data = {
+      fileName,
+      content,
+      pointCount: points.length,
+      bounds: {
+        minLat: bounds.min_lat,
+        minLon: bounds.min_lon,
+        maxLat: bounds.max_lat,
+        maxLon: bounds.max_lon,
+      },
+      uploadedAt: new Date(),
+    };
+
+    // Keep the stage's `gpx` file name and profile in step with the stored
+    // file; the file is only replaced once the route has taken the change
+    const saved = await updateStage(target.route, target.stageNumber, {
+      gpx: fileName,
+      profile: toStoredProfile(
+        computeElevationProfile(points),
+      ) as Prisma.ElevationProfileCreateInput | null,
+    });
+    if (saved.error) return saved.error;
+    const updated = saved.route;
+
+    const gpx = await prisma.stageGpx.upsert({
+      where: {
+        routeDbId_stageNumber: {
+          routeDbId: target.route.id,
+          stageNumber: target.stageNumber,
+        },
+      },
+      create: {
+        ...data,
+        routeDbId: target.route.id,
+        stageNumber: target.stageNumber,
+      },
+      update: data,
+    });
+    const actor = toActor(auth.user);
+    await recordRevision(updated, "update", actor);
+    await recordAudit(
+      updated.routeId,
+      "updated",
+      actor,
+      summarizeChanges(target.route, updated),
+    );
+
+    // the route's version moved on; editors holding it need the new one
+    return NextResponse.json({
+      ...formatSummary(gpx),
+      version: routeVersion(updated),
+    });
+  } catch (error) {
+    if (error instanceof GpxParseError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 422 },
+      );
+    }
+    console.error("Error uploading GPX:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to upload GPX" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(_request: Request, context: GpxContext) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const target = await resolveTarget(context);
+    if (target.error) return target.error;
+
+    const where = {
+      routeDbId: target.route.id,
+      stageNumber: target.stageNumber,
+    };
+    if ((await prisma.stageGpx.count({ where })) === 0) {
+      return NextResponse.json(
+        { success: false, error: "No GPX uploaded for this stage" },
+        { status: 404 },
+      );
+    }
+
+    const saved = await updateStage(target.route, target.stageNumber, {
+      gpx: "",
+      profile: null,
+    });
+    if (saved.error) return saved.error;
+    const updated = saved.route;
+    await prisma.stageGpx.deleteMany({ where });
+    const actor = toActor(auth.user);
+    await recordRevision(updated, "update", actor);
+    await recordAudit(
+      updated.routeId,
+      "updated",
+      actor,
+      summarizeChanges(target.route, updated),
+    );
+
+    return NextResponse.json({
+      success: true,
+      route_id: target.route.routeId,
+      stage_number: target.stageNumber,
+      version: routeVersion(updated),
+    });
+  } catch (error) {
+    console.error("Error deleting GPX:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete GPX" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,300 @@
+import {
+  validationFailed,
+  versionRequired,
+} from "../../../../../../lib/apiErrors";
+import { requireRole, toActor } from "../../../../../../lib/auth";
+import { applyMergePatch } from "../../../../../../lib/mergePatch";
+import prisma from "../../../../../../lib/prisma";
+import {
+  formatStage,
+  toStageData,
+  type RouteRecord,
+} from "../../../../../../lib/routeFormat";
+import { stageSchema, toFieldErrors } from "../../../../../../lib/routeSchema";
+import { dropStaleMeasures } from "../../../../../../lib/stageMeasures";
+import {
+  byStageNumber,
+  parseStageNumber,
+  storedStages,
+  writeStages,
+} from "../../../../../../lib/routeStages";
+import {
+  parseIfMatch,
+  routeVersion,
+  toETag,
+} from "../../../../../../lib/routeVersion";
+import { LIVE_ROUTE } from "../../../../../../lib/trash";
+import { NextResponse } from "next/server";
+
+type StageContext = {
+  params: Promise<{ id: string; stageNumber: string }>;
+};
+
+async function resolveStage(context: StageContext) {
+  const params = await context.params;
+  const stageNumber = parseStageNumber(params.stageNumber);
+  if (stageNumber === null) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: "Stage number must be a positive integer" },
+        { status: 400 },
+      ),
+    };
+  }
+
+  const route = await prisma.route.findFirst({
+    where: { routeId: params.id, ...LIVE_ROUTE },
+  });
+  if (!route) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: "Route not found" },
+        { status: 404 },
+      ),
+    };
+  }
+
+  const stage = route.stages.find((s) => s.stageNumber === stageNumber);
+  return { route, stageNumber, stage };
+}
+
+function stageNotFound(stageNumber: number) {
+  return NextResponse.json(
+    { success: false, error: `Stage ${stageNumber} not found` },
+    { status: 404 },
+  );
+}
+
+// The URL names the stage; renumbering goes through the reorder endpoint
+function parseStage(body: unknown, stageNumber: number) {
+  const stage = (body ?? {}) as Record<string, unknown>;
+  if (
+    stage.stage_number !== undefined &&
+    Number(stage.stage_number) !== stageNumber
+  ) {
+    return {
+      error: validationFailed([
+        {
+          path: "stage_number",
+          message: `Stage number does not match the URL (${stageNumber}); use the reorder endpoint to renumber stages`,
+        },
+      ]),
+    };
+  }
+  const parsed = stageSchema.safeParse({ ...stage, stage_number: stageNumber });
+  if (!parsed.success) {
+    return { error: validationFailed(toFieldErrors(parsed.error)) };
+  }
+  return { stage: parsed.data };
+}
+
+function stageResponse(route: RouteRecord, stageNumber: number, status = 200) {
+  const stage = route.stages.find((s) => s.stageNumber === stageNumber);
+  const version = routeVersion(route);
+  return NextResponse.json(
+    { ...(stage && formatStage(stage)), version },
+    { status, headers: { ETag: toETag(version) } },
+  );
+}
+
+export async function GET(_request: Request, context: StageContext) {
+  try {
+    const target = await resolveStage(context);
+    if (target.error) return target.error;
+    if (!target.stage) return stageNotFound(target.stageNumber);
+
+    return stageResponse(target.route, target.stageNumber);
+  } catch (error) {
+    console.error("Error fetching stage:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch stage" },
+      { status: 500 },
+    );
+  }
+}
+
+// Adds the stage under the number in the URL, which must be free
+export async function POST(request: Request, context: StageContext) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const target = await resolveStage(context);
+    if (target.error) return target.error;
+    if (target.stage) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Stage ${target.stageNumber} already exists`,
+        },
+        { status: 409 },
+      );
+    }
+
+    const parsed = parseStage(await request.json(), target.stageNumber);
+    if (parsed.error) return parsed.error;
+
+    const saved = await writeStages(
+      target.route,
+      parseIfMatch(request.headers.get("If-Match")),
+      {
+        stages: byStageNumber([
+          ...storedStages(target.route),
+          toStageData(parsed.stage),
+        ]),
+      },
+      toActor(auth.user),
+    );
+    if (saved.error) return saved.error;
+
+    return stageResponse(saved.route, target.stageNumber, 201);
+  } catch (error) {
+    console.error("Error creating stage:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create stage" },
+      { status: 500 },
+    );
+  }
+}
+
+// Replaces the stage. Like a route PUT, saves must name the version they
+// were based on.
+export async function PUT(request: Request, context: StageContext) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const expectedVersion = parseIfMatch(request.headers.get("If-Match"));
+    if (expectedVersion === null) {
+      return versionRequired();
+    }
+
+    const target = await resolveStage(context);
+    if (target.error) return target.error;
+    if (!target.stage) return stageNotFound(target.stageNumber);
+
+    const parsed = parseStage(await request.json(), target.stageNumber);
+    if (parsed.error) return parsed.error;
+
+    const saved = await writeStages(
+      target.route,
+      expectedVersion,
+      {
+        stages: storedStages(target.route).map((stage) =>
+          stage.stageNumber === target.stageNumber
+            ? toStageData(parsed.stage)
+            : stage,
+        ),
+      },
+      toActor(auth.user),
+    );
+    if (saved.error) return saved.error;
+
+    return stageResponse(saved.route, target.stageNumber);
+  } catch (error) {
+    console.error("Error updating stage:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update stage" },
+      { status: 500 },
+    );
+  }
+}
+
+// Applies a JSON merge patch (RFC 7396) to the stage in export shape;
+// `null` removes a field. A measure can be patched through either form:
+// `{ "details": { "total_time": "5h" } }` is parsed like on import, and
+// `total_time_min` wins when both are patched.
+export async function PATCH(request: Request, context: StageContext) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const expectedVersion = parseIfMatch(request.headers.get("If-Match"));
+    if (expectedVersion === null) {
+      return versionRequired();
+    }
+
+    const target = await resolveStage(context);
+    if (target.error) return target.error;
+    if (!target.stage) return stageNotFound(target.stageNumber);
+
+    const patch = await request.json();
+    if (typeof patch !== "object" || patch === null || Array.isArray(patch)) {
+      return NextResponse.json(
+        { success: false, error: "Patch must be a JSON object" },
+        { status: 400 },
+      );
+    }
+    const current = formatStage(target.stage);
+    const parsed = parseStage(
+      dropStaleMeasures(current, applyMergePatch(current, patch)),
+      target.stageNumber,
+    );
+    if (parsed.error) return parsed.error;
+
+    const saved = await writeStages(
+      target.route,
+      expectedVersion,
+      {
+        stages: storedStages(target.route).map((stage) =>
+          stage.stageNumber === target.stageNumber
+            ? toStageData(parsed.stage)
+            : stage,
+        ),
+      },
+      toActor(auth.user),
+    );
+    if (saved.error) return saved.error;
+
+    return stageResponse(saved.route, target.stageNumber);
+  } catch (error) {
+    console.error("Error patching stage:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to patch stage" },
+      { status: 500 },
+    );
+  }
+}
+
+// Removes the stage and its uploaded GPX track. Later stages keep their
+// numbers; reorder to close the gap.
+export async function DELETE(request: Request, context: StageContext) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const target = await resolveStage(context);
+    if (target.error) return target.error;
+    if (!target.stage) return stageNotFound(target.stageNumber);
+
+    const saved = await writeStages(
+      target.route,
+      parseIfMatch(request.headers.get("If-Match")),
+      {
+        stages: storedStages(target.route).filter(
+          (stage) => stage.stageNumber !== target.stageNumber,
+        ),
+        removed: [target.stageNumber],
+      },
+      toActor(auth.user),
+    );
+    if (saved.error) return saved.error;
+
+    const version = routeVersion(saved.route);
+    return NextResponse.json(
+      {
+        success: true,
+        route_id: saved.route.routeId,
+        stage_number: target.stageNumber,
+        version,
+      },
+      { headers: { ETag: toETag(version) } },
+    );
+  } catch (error) {
+    console.error("Error deleting stage:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete stage" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { validationFailed } from "../../../../../../lib/apiErrors";
+import { requireRole, toActor } from "../../../../../../lib/auth";
+import prisma from "../../../../../../lib/prisma";
+import { formatRoute } from "../../../../../../lib/routeFormat";
+import { renumberStartingPoints } from "../../../../../../lib/routeReverse";
+import {
+  reorderStagesSchema,
+  toFieldErrors,
+} from "../../../../../../lib/routeSchema";
+import { storedStages, writeStages } from "../../../../../../lib/routeStages";
+import {
+  parseIfMatch,
+  routeVersion,
+  toETag,
+} from "../../../../../../lib/routeVersion";
+import { LIVE_ROUTE } from "../../../../../../lib/trash";
+import type { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+
+// Puts the stages in the order of `stage_numbers`, which lists every stage
+// number first to last, and renumbers them from 1. Uploaded GPX tracks and
+// starting points follow their stage.
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const params = await context.params;
+    const route = await prisma.route.findFirst({
+      where: { routeId: params.id, ...LIVE_ROUTE },
+    });
+    if (!route) {
+      return NextResponse.json(
+        { success: false, error: "Route not found" },
+        { status: 404 },
+      );
+    }
+
+    const parsed = reorderStagesSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationFailed(toFieldErrors(parsed.error));
+    }
+    const order = parsed.data.stage_numbers;
+
+    const stages = storedStages(route);
+    const known = new Set(stages.map((stage) => stage.stageNumber));
+    if (
+      order.length !== known.size ||
+      new Set(order).size !== order.length ||
+      !order.every((n) => known.has(n))
+    ) {
+      return validationFailed([
+        { path: "stage_numbers", message: "List every stage exactly once" },
+      ]);
+    }
+
+    // old stage number -> new
+    const renumbered: Record<number, number> = Object.fromEntries(
+      order.map((n, i) => [n, i + 1]),
+    );
+    const saved = await writeStages(
+      route,
+      parseIfMatch(request.headers.get("If-Match")),
+      {
+        stages: order.map((n) => ({
+          ...stages.find((stage) => stage.stageNumber === n)!,
+          stageNumber: renumbered[n],
+        })),
+        startingPoint: renumberStartingPoints(
+          route.startingPoint,
+          renumbered,
+        ) as Prisma.InputJsonValue[],
+        renumbered,
+      },
+      toActor(auth.user),
+    );
+    if (saved.error) return saved.error;
+
+    const version = routeVersion(saved.route);
+    return NextResponse.json(
+      { success: true, route: { ...formatRoute(saved.route), version } },
+      { headers: { ETag: toETag(version) } },
+    );
+  } catch (error) {
+    console.error("Error reordering stages:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to reorder stages" },
+      { status: 500 },
+    );
+  }
+}
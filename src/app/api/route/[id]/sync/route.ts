@@ -0,0 +1,201 @@
+import {
+  validationFailed,
+  versionConflict,
+} from "../../../../../lib/apiErrors";
+import { recordAudit, summarizeChanges } from "../../../../../lib/audit";
+import { requireRole, toActor } from "../../../../../lib/auth";
+import prisma from "../../../../../lib/prisma";
+import { recordRevision } from "../../../../../lib/revisions";
+import {
+  formatRoute,
+  toRouteData,
+  type RouteRecord,
+} from "../../../../../lib/routeFormat";
+import {
+  routePayloadSchema,
+  toFieldErrors,
+} from "../../../../../lib/routeSchema";
+import { parentShape, trackParent } from "../../../../../lib/routeVariants";
+import {
+  parseIfMatch,
+  routeVersion,
+  toETag,
+  updateAtVersion,
+} from "../../../../../lib/routeVersion";
+import { LIVE_ROUTE } from "../../../../../lib/trash";
+import { syncVariant } from "../../../../../lib/variantSync";
+import { NextResponse } from "next/server";
+
+type SyncContext = { params: Promise<{ id: string }> };
+
+// The variant and its live parent, or the response explaining why there is
+// nothing to sync with
+async function loadVariant(routeId: string) {
+  const variant = await prisma.route.findFirst({
+    where: { routeId, ...LIVE_ROUTE },
+  });
+  if (!variant) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: "Route not found" },
+        { status: 404 },
+      ),
+    };
+  }
+  if (!variant.variantOf) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: "Route is not a variant" },
+        { status: 400 },
+      ),
+    };
+  }
+  const parent = await prisma.route.findFirst({
+    where: { routeId: variant.variantOf, ...LIVE_ROUTE },
+  });
+  if (!parent) {
+    return {
+      error: NextResponse.json(
+        {
+          success: false,
+          error: `Parent route "${variant.variantOf}" not found`,
+        },
+        { status: 404 },
+      ),
+    };
+  }
+  return { variant, parent };
+}
+
+function compare(variant: RouteRecord, parent: RouteRecord) {
+  if (!variant.variantBase) return null;
+  return syncVariant(
+    variant.variantBase as Record<string, unknown>,
+    formatRoute(variant),
+    parentShape(parent, variant.variantType),
+  );
+}
+
+// What a variant overrides and inherits, and which parent changes a merge
+// would bring in. Untracked variants (e.g. imported ones) report nothing
+// until a merge starts tracking the parent.
+export async function GET(_request: Request, context: SyncContext) {
+  try {
+    const params = await context.params;
+    const loaded = await loadVariant(params.id);
+    if (loaded.error) return loaded.error;
+    const { variant, parent } = loaded;
+
+    const sync = compare(variant, parent);
+    const parentVersion = routeVersion(parent);
+    return NextResponse.json({
+      route_id: variant.routeId,
+      variant_of: parent.routeId,
+      tracked: sync !== null,
+      base_version: variant.variantBaseVersion ?? null,
+      parent_version: parentVersion,
+      parent_changed:
+        sync !== null && parentVersion !== variant.variantBaseVersion,
+      overrides: sync?.overrides ?? [],
+      inherited: sync?.inherited ?? [],
+      upstream: sync?.upstream ?? [],
+      conflicts: sync?.conflicts ?? [],
+    });
+  } catch (error) {
+    console.error("Error comparing variant with parent:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to compare variant with parent" },
+      { status: 500 },
+    );
+  }
+}
+
+// Merges the parent's changes into the variant, keeping its overrides, and
+// tracks the parent as it is now. `If-Match` is optional here since nothing
+// the client sends is written, but is honored when given.
+export async function POST(request: Request, context: SyncContext) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const params = await context.params;
+    const loaded = await loadVariant(params.id);
+    if (loaded.error) return loaded.error;
+    const { variant, parent } = loaded;
+
+    const currentVersion = routeVersion(variant);
+    const expectedVersion = parseIfMatch(request.headers.get("If-Match"));
+    if (
+      expectedVersion !== null &&
+      expectedVersion !== "any" &&
+      expectedVersion !== currentVersion
+    ) {
+      return versionConflict(currentVersion, formatRoute(variant));
+    }
+
+    const tracking = await trackParent(parent.routeId, variant.variantType);
+    const sync = compare(variant, parent);
+    if (!tracking || !sync) {
+      // Nothing to merge against yet; from now on differences are overrides
+      await prisma.route.update({
+        where: { id: variant.id },
+        data: tracking ?? {},
+      });
+      return NextResponse.json({
+        success: true,
+        tracked: true,
+        upstream: [],
+        conflicts: [],
+      });
+    }
+
+    const parsed = routePayloadSchema.safeParse(sync.merged);
+    if (!parsed.success) {
+      return validationFailed(toFieldErrors(parsed.error));
+    }
+
+    // Conditional on the version, like PUT, so a concurrent save is not lost
+    const result = await updateAtVersion(variant, {
+      ...toRouteData(parsed.data),
+      ...tracking,
+    });
+    const updated = result.route;
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, error: "Route not found" },
+        { status: 404 },
+      );
+    }
+    if (!result.saved) {
+      return versionConflict(routeVersion(updated), formatRoute(updated));
+    }
+
+    const actor = toActor(auth.user);
+    await recordRevision(updated, "update", actor);
+    const changes = summarizeChanges(variant, updated);
+    changes.unshift({
+      path: "merged_from",
+      before: null,
+      after: `${parent.routeId} v${routeVersion(parent)}`,
+    });
+    await recordAudit(updated.routeId, "updated", actor, changes);
+
+    const version = routeVersion(updated);
+    return NextResponse.json(
+      {
+        success: true,
+        tracked: true,
+        upstream: sync.upstream,
+        conflicts: sync.conflicts,
+        route: { ...formatRoute(updated), version },
+      },
+      { headers: { ETag: toETag(version) } },
+    );
+  } catch (error) {
+    console.error("Error merging parent into variant:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to merge parent into variant" },
+      { status: 500 },
+    );
+  }
+}
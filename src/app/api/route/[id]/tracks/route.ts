@@ -0,0 +1,50 @@
+import prisma from "../../../../../lib/prisma";
+import { downsamplePoints, parseGpx } from "../../../../../lib/gpx";
+import { LIVE_ROUTE } from "../../../../../lib/trash";
+import { NextResponse } from "next/server";
+
+const MAX_POINTS_PER_STAGE = 500;
+
+// Downsampled GPX tracks for every stage of a route, for map rendering
+export async function GET(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const params = await context.params;
+    const route = await prisma.route.findFirst({
+      where: { routeId: params.id, ...LIVE_ROUTE },
+      select: { id: true, routeId: true },
+    });
+
+    if (!route) {
+      return NextResponse.json(
+        { success: false, error: "Route not found" },
+        { status: 404 },
+      );
+    }
+
+    const gpxFiles = await prisma.stageGpx.findMany({
+      where: { routeDbId: route.id },
+      select: { stageNumber: true, content: true },
+      orderBy: { stageNumber: "asc" },
+    });
+
+    return NextResponse.json({
+      route_id: route.routeId,
+      tracks: gpxFiles.map((gpx) => ({
+        stage_number: gpx.stageNumber,
+        points: downsamplePoints(
+          parseGpx(gpx.content).points,
+          MAX_POINTS_PER_STAGE,
+        ).map((p) => [p.lat, p.lon]),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching tracks:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch tracks" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,88 +1,321 @@
+import {
+  isUniqueConstraintError,
+  routeIdConflict,
+  routeInTrash,
+  validationFailed,
+} from "../../../lib/apiErrors";
+import { recordAudit, summarizeChanges } from "../../../lib/audit";
+import { requireRole, toActor } from "../../../lib/auth";
 import prisma from "../../../lib/prisma";
-import type { Prisma } from "@prisma/client";
+import { recordRevision } from "../../../lib/revisions";
+import { unknownGroupErrors } from "../../../lib/routeGroups";
+import { ROUTE_SCHEMA_VERSION, upgradeRoutes } from "../../../lib/routeExport";
+import { formatRoute, toRouteData } from "../../../lib/routeFormat";
+import {
+  pageRoutes,
+  parseRouteListQuery,
+  routeListWhere,
+  totalDistanceKm,
+} from "../../../lib/routeQuery";
+import {
+  parentTracking,
+  variantErrors,
+  variantsBehindParent,
+  variantShapeErrors,
+} from "../../../lib/routeVariants";
+import { routeVersion, updateAtVersion } from "../../../lib/routeVersion";
+import {
+  routePayloadSchema,
+  toFieldErrors,
+  type FieldError,
+  type RoutePayload,
+} from "../../../lib/routeSchema";
+import { copyTracks } from "../../../lib/stageTracks";
+import { LIVE_ROUTE } from "../../../lib/trash";
 import { NextResponse } from "next/server";
 
-function normalizeAvgDailyDistance(
-  items: unknown,
-): Array<Record<string, unknown>> {
-  if (!Array.isArray(items)) {
-    return [];
+// Per-route outcome reported by the bulk import mode
+type ImportStatus = "created" | "updated" | "skipped" | "failed";
+
+type ImportResult = {
+  index: number;
+  route_id: string | null;
+  status: ImportStatus;
+  reason?: string;
+  errors?: FieldError[];
+};
+
+// "create" skips routes whose route_id already exists, "upsert" replaces them
+type ImportMode = "create" | "upsert";
+
+function isTruthyParam(value: string | null) {
+  return value === "1" || value === "true";
+}
+
+// Routes are checked like a single POST or PUT: groups must exist and
+// variants need a live parent. Parents are imported before their variants,
+// so a variant may come before its parent in the payload; results are
+// still reported in payload order.
+async function importRoutes(
+  incomingRoutes: unknown[],
+  mode: ImportMode,
+  dryRun: boolean,
+  actor: ReturnType<typeof toActor>,
+) {
+  const results: ImportResult[] = [];
+  const seenIds = new Set<string>();
+  const pending: { index: number; route: RoutePayload }[] = [];
+
+  for (const [index, item] of incomingRoutes.entries()) {
+    const parsed = routePayloadSchema.safeParse(item);
+    if (!parsed.success) {
+      const rawId = (item as { route_id?: unknown } | null)?.route_id;
+      results.push({
+        index,
+        route_id: typeof rawId === "string" && rawId ? rawId : null,
+        status: "failed",
+        reason: "Validation failed",
+        errors: toFieldErrors(parsed.error),
+      });
+      continue;
+    }
+    const routeId = parsed.data.route_id;
+
+    const shapeErrors = variantShapeErrors(parsed.data);
+    if (shapeErrors) {
+      results.push({
+        index,
+        route_id: routeId,
+        status: "failed",
+        reason: "Validation failed",
+        errors: shapeErrors,
+      });
+      continue;
+    }
+
+    if (seenIds.has(routeId)) {
+      results.push({
+        index,
+        route_id: routeId,
+        status: "skipped",
+        reason: "Duplicate route_id earlier in payload",
+      });
+      continue;
+    }
+    seenIds.add(routeId);
+    pending.push({ index, route: parsed.data });
   }
 
-  return items.map((item) => {
-    const record = item as Record<string, unknown>;
-    const directLabel = typeof record.label === "string" ? record.label : null;
-    const rangeValue =
-      typeof record.range_value === "string" ? record.range_value : null;
-    const dynamicKey = Object.keys(record).find((key) =>
-      key.startsWith("avg_daily_distance_"),
-    );
-    const dynamicLabel =
-      dynamicKey && typeof record[dynamicKey] === "string"
-        ? (record[dynamicKey] as string)
-        : null;
+  // routes a dry run would have written, standing in as parents
+  const imported = new Set<string>();
+  const parentsFirst = [
+    ...pending.filter(({ route }) => !route.variant_of),
+    ...pending.filter(({ route }) => route.variant_of),
+  ];
+  for (const { index, route } of parentsFirst) {
+    const routeId = route.route_id;
+    try {
+      const existing = await prisma.route.findUnique({
+        where: { routeId },
+      });
 
-    return {
-      label: directLabel || rangeValue || dynamicLabel || "",
-      minimum_km: record.minimum_km,
-      minimum_mile: record.minimum_mile,
-      maximum_km: record.maximum_km,
-      maximum_mile: record.maximum_mile,
-      days: record.days,
-    } as Record<string, unknown>;
-  });
+      if (existing?.deletedAt) {
+        results.push({
+          index,
+          route_id: routeId,
+          status: "skipped",
+          reason: "Route is in the trash",
+        });
+        continue;
+      }
+
+      if (existing && mode === "create") {
+        results.push({
+          index,
+          route_id: routeId,
+          status: "skipped",
+          reason: "Route already exists",
+        });
+        continue;
+      }
+
+      // Routes filed under a group that has since gone keep it until changed
+      const groupErrors =
+        existing && route.group_name === existing.groupName
+          ? null
+          : await unknownGroupErrors(route.group_name);
+      const parentErrors =
+        dryRun && route.variant_of && imported.has(route.variant_of)
+          ? null
+          : await variantErrors(route, existing ? routeId : undefined);
+      const errors = [...(groupErrors ?? []), ...(parentErrors ?? [])];
+      if (errors.length > 0) {
+        results.push({
+          index,
+          route_id: routeId,
+          status: "failed",
+          reason: "Validation failed",
+          errors,
+        });
+        continue;
+      }
+
+      const data = toRouteData(route);
+      if (existing) {
+        if (!dryRun) {
+          const { saved, route: updated } = await updateAtVersion(existing, {
+            ...data,
+            ...(await parentTracking(existing, data)),
+          });
+          if (!saved || !updated) {
+            results.push({
+              index,
+              route_id: routeId,
+              status: "failed",
+              reason: "Route changed during the import; import it again",
+            });
+            continue;
+          }
+          await recordRevision(updated, "update", actor);
+          await recordAudit(
+            routeId,
+            "updated",
+            actor,
+            summarizeChanges(existing, updated),
+          );
+        }
+        imported.add(routeId);
+        results.push({ index, route_id: routeId, status: "updated" });
+      } else {
+        if (!dryRun) {
+          const created = await prisma.route.create({
+            data: {
+              ...data,
+              ...(await parentTracking(null, data)),
+              version: 1,
+            },
+          });
+          await recordRevision(created, "create", actor);
+          await recordAudit(
+            routeId,
+            "created",
+            actor,
+            summarizeChanges(null, created),
+          );
+        }
+        imported.add(routeId);
+        results.push({ index, route_id: routeId, status: "created" });
+      }
+    } catch (error) {
+      console.error(`Error importing route ${routeId}:`, error);
+      results.push({
+        index,
+        route_id: routeId,
+        status: "failed",
+        reason: isUniqueConstraintError(error)
+          ? "Route ID already exists"
+          : error instanceof Error
+            ? error.message
+            : "Unknown error",
+      });
+    }
+  }
+
+  return results.sort((a, b) => a.index - b.index);
 }
 
-export async function GET() {
+// Filtering, sorting and paging parameters are described in
+// src/lib/routeQuery.ts. Routes in the trash are left out unless
+// `include_deleted=true`.
+export async function GET(request: Request) {
   try {
-    const routes = await prisma.route.findMany();
+    const searchParams = new URL(request.url).searchParams;
+    const parsedQuery = parseRouteListQuery(searchParams);
+    if ("error" in parsedQuery) {
+      return NextResponse.json(
+        { success: false, error: parsedQuery.error },
+        { status: 400 },
+      );
+    }
+    const { query } = parsedQuery;
+    // Trashed routes are for editors, as in the trash itself
+    const includeDeleted = isTruthyParam(searchParams.get("include_deleted"));
+    if (includeDeleted) {
+      const auth = await requireRole("editor");
+      if (auth.error) return auth.error;
+    }
 
-    // We need to reverse-map the data to match the requested JSON format structure if we want exact symmetry?
-    // The user requested: "download all routes in json format together as it is"
-    // { routes: [ { single route }, ... ] }
-    // Our DB stores fields in camelCase (routeId, routeName) but input was snake_case (route_id, route_name).
-    // If we want "as it is", we should probably map back to snake_case for the download.
+    const matches = await prisma.route.findMany({
+      where: {
+        AND: [routeListWhere(query), includeDeleted ? {} : LIVE_ROUTE],
+      },
+      select: {
+        id: true,
+        routeId: true,
+        routeName: true,
+        groupName: true,
+        version: true,
+        deletedAt: true,
+        variantOf: true,
+        variantType: true,
+        variantBaseVersion: true,
+        stages: { select: { distanceKm: true } },
+      },
+    });
+    const { ids, nextCursor } = pageRoutes(matches, query);
+    const byId = new Map(matches.map((route) => [route.id, route]));
+    // Variants also say whether their parent has changes to merge
+    const behindParent = await variantsBehindParent(
+      ids.map((id) => byId.get(id)!),
+    );
+    const parentChanged = (route: {
+      routeId: string;
+      variantOf: string | null;
+    }) =>
+      route.variantOf
+        ? { parent_changed: behindParent.has(route.routeId) }
+        : {};
 
+    if (query.summary) {
+      const summaries = ids.map((id) => {
+        const route = byId.get(id)!;
+        return {
+          route_id: route.routeId,
+          group_name: route.groupName,
+          route_name: route.routeName,
+          version: routeVersion(route),
+          variant_of: route.variantOf ?? null,
+          variant_type: route.variantType ?? null,
+          ...parentChanged(route),
+          stage_count: route.stages.length,
+          total_distance_km: totalDistanceKm(route.stages),
+          ...(route.deletedAt ? { deleted_at: route.deletedAt } : {}),
+        };
+      });
+      return NextResponse.json({ routes: summaries, next_cursor: nextCursor });
+    }
+
+    const loaded = await prisma.route.findMany({
+      where: { id: { in: ids } },
+    });
+    const order = new Map(ids.map((id, index) => [id, index]));
+    const routes = loaded.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+
+    // Same shape as a single route, so the list doubles as an export that
+    // can be imported again
     const formattedRoutes = routes.map((route) => ({
-      route_id: route.routeId,
-      group_name: route.groupName,
-      route_name: route.routeName,
-      avg_daily_distance: normalizeAvgDailyDistance(route.avgDailyDistance),
-      starting_point: route.startingPoint || [],
-      stages: route.stages.map((stage) => ({
-        stage_number: stage.stageNumber,
-        stage_name: stage.stageName,
-        distance_km: stage.distanceKm,
-        distance_miles: stage.distanceMiles,
-        gpx: stage.gpx,
-        details: {
-          total_distance: stage.details.totalDistance,
-          total_time: stage.details.totalTime,
-          accumulated_ascent: stage.details.accumulatedAscent,
-          accumulated_descent: stage.details.accumulatedDescent,
-          walking_surface: stage.details.walkingSurface,
-          elevation_profile: stage.details.elevationProfile,
-          challenges: stage.details.challenges,
-          highlights: stage.details.highlights,
-        },
-        facilities: stage.facilities.map((f) => ({
-          index: f.index,
-          name: f.name,
-          distance: f.distance,
-          services: f.services,
-        })),
-        accommodations: stage.accommodations.map((a) => ({
-          name: a.name,
-          price_category: a.priceCategory,
-          contact_url: a.contactUrl,
-          contact_phone: a.contactPhone,
-          lat: a.lat,
-          long: a.long,
-        })),
-      })),
+      ...formatRoute(route),
+      ...parentChanged(route),
+      // needed as `If-Match` when saving an edit
+      version: routeVersion(route),
+      ...(route.deletedAt ? { deleted_at: route.deletedAt } : {}),
     }));
 
-    return NextResponse.json({ routes: formattedRoutes });
+    return NextResponse.json({
+      schema_version: ROUTE_SCHEMA_VERSION,
+      routes: formattedRoutes,
+      next_cursor: nextCursor,
+    });
   } catch (error) {
     console.error("Error fetching routes:", error);
     return NextResponse.json(
@@ -93,191 +326,122 @@ export async function GET() {
 }
 
 export async function POST(request: Request) {
+  let requestedRouteId = "";
   try {
-    const body = await request.json();
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
 
-    // Input types for safer handling (avoid `any` usage)
-    type FacilityIn = {
-      index?: number;
-      name?: string | null;
-      distance?: string | null;
-      services?: string[];
-    };
+    const body = await request.json();
 
-    type AccommodationIn = {
-      name?: string;
-      price_category?: string;
-      contact_url?: string | null;
-      lat?: number | null;
-      long?: number | null;
-      contact_phone?: string | null;
-    };
+    // `{ routes: [ ... ] }` is a bulk import (e.g. a re-uploaded export);
+    // a bare route object creates that single route. Exports in an older
+    // `schema_version` are upgraded first.
+    if (Array.isArray(body?.routes)) {
+      const upgraded = upgradeRoutes(body.routes, body.schema_version);
+      if ("error" in upgraded) {
+        return NextResponse.json(
+          { success: false, error: upgraded.error },
+          { status: 422 },
+        );
+      }
+      const searchParams = new URL(request.url).searchParams;
+      const mode: ImportMode =
+        searchParams.get("mode") === "upsert" ? "upsert" : "create";
+      const dryRun = isTruthyParam(searchParams.get("dry_run"));
 
-    type StageIn = {
-      stage_number?: number;
-      stage_name?: string;
-      distance_km?: number;
-      distance_miles?: number;
-      gpx?: string;
-      details?: {
-        total_distance?: number;
-        total_time?: string;
-        accumulated_ascent?: number;
-        accumulated_descent?: number;
-        walking_surface?: string[];
-        elevation_profile?: string;
-        challenges?: string[];
-        highlights?: string[];
+      const results = await importRoutes(
+        upgraded.routes,
+        mode,
+        dryRun,
+        toActor(auth.user),
+      );
+      const summary = {
+        total: results.length,
+        created: results.filter((r) => r.status === "created").length,
+        updated: results.filter((r) => r.status === "updated").length,
+        skipped: results.filter((r) => r.status === "skipped").length,
+        failed: results.filter((r) => r.status === "failed").length,
       };
-      facilities?: FacilityIn[];
-      accommodations?: AccommodationIn[];
-    };
-
-    type IncomingRoute = {
-      route_id?: string;
-      group_name?: string;
-      route_name?: string;
-      stages?: StageIn[];
-      avg_daily_distance?: Array<Record<string, unknown>>;
-      starting_point?: Array<Record<string, unknown>>;
-    };
-
-    // Types for created DB payload mapping (camelCase shapes returned by Prisma)
-    type CreatedFacility = {
-      index: number;
-      name: string;
-      distance: string;
-      services: string[];
-    };
 
-    type CreatedAccommodation = {
-      name: string;
-      priceCategory: string;
-      contactUrl?: string | null;
-      contactPhone?: string | null;
-      lat?: number | null;
-      long?: number | null;
-    };
-
-    type CreatedDetails = {
-      totalDistance: string;
-      totalTime: string;
-      accumulatedAscent: string;
-      accumulatedDescent: string;
-      walkingSurface: string[];
-      elevationProfile: string;
-      challenges: string[];
-      highlights: string[];
-    };
+      return NextResponse.json(
+        {
+          success: summary.failed === 0,
+          dry_run: dryRun,
+          mode,
+          summary,
+          results,
+        },
+        { status: summary.failed === 0 ? 200 : 207 },
+      );
+    }
 
-    type CreatedStage = {
-      stageNumber: number;
-      stageName: string;
-      distanceKm: number;
-      distanceMiles: number;
-      gpx: string;
-      details: CreatedDetails;
-      facilities: CreatedFacility[];
-      accommodations: CreatedAccommodation[];
-    };
-    // Accept either `{ routes: [ ... ] }` or a single route object in the body
-    const incomingRoute: IncomingRoute = Array.isArray(body?.routes)
-      ? (body.routes[0] as IncomingRoute)
-      : (body as IncomingRoute);
+    const parsed = routePayloadSchema.safeParse(body);
+    if (!parsed.success) {
+      return validationFailed(toFieldErrors(parsed.error));
+    }
+    const data = toRouteData(parsed.data);
+    requestedRouteId = data.routeId;
 
-    const { route_id, group_name, route_name, stages } = incomingRoute || {};
+    const groupErrors = await unknownGroupErrors(data.groupName);
+    if (groupErrors) return validationFailed(groupErrors);
+    const parentErrors = await variantErrors(parsed.data);
+    if (parentErrors) return validationFailed(parentErrors);
 
-    const formattedStages = (stages || []).map((stage: StageIn) => ({
-      stageNumber: stage.stage_number ?? 0,
-      stageName: stage.stage_name ?? "",
-      distanceKm: stage.distance_km ?? 0,
-      distanceMiles: stage.distance_miles ?? 0,
-      gpx: stage.gpx ?? "",
-      details: {
-        totalDistance: stage.details?.total_distance ?? "",
-        totalTime: stage.details?.total_time ?? "",
-        accumulatedAscent: stage.details?.accumulated_ascent ?? "",
-        accumulatedDescent: stage.details?.accumulated_descent ?? "",
-        walkingSurface: stage.details?.walking_surface || [],
-        elevationProfile: stage.details?.elevation_profile ?? "",
-        challenges: stage.details?.challenges || [],
-        highlights: stage.details?.highlights || [],
-      },
-      facilities: (stage.facilities || []).map((f: FacilityIn) => ({
-        index: f.index ?? 0,
-        name: f.name ?? "",
-        distance: f.distance ?? "",
-        services: f.services || [],
-      })),
-      accommodations: (stage.accommodations || []).map(
-        (a: AccommodationIn) => ({
-          name: a.name ?? "",
-          priceCategory: a.price_category ?? "",
-          contactUrl: a.contact_url ?? null,
-          contactPhone: a.contact_phone ?? null,
-          lat: a.lat ?? null,
-          long: a.long ?? null,
-        }),
-      ),
-    }));
+    const existing = await prisma.route.findUnique({
+      where: { routeId: data.routeId },
+      select: { id: true, deletedAt: true },
+    });
+    if (existing) {
+      return existing.deletedAt
+        ? routeInTrash(data.routeId)
+        : routeIdConflict(data.routeId);
+    }
 
     const newRoute = await prisma.route.create({
       data: {
-        routeId: route_id ?? "",
-        routeName: route_name ?? "",
-        groupName: group_name ?? "",
-        avgDailyDistance: (incomingRoute.avg_daily_distance ||
-          []) as unknown as Prisma.InputJsonValue[],
-        startingPoint: (incomingRoute.starting_point ||
-          []) as unknown as Prisma.InputJsonValue[],
-        stages: formattedStages as unknown as Prisma.StageCreateInput[],
+        ...data,
+        ...(await parentTracking(null, data)),
+        version: 1,
       },
     });
+    // Set by the routes list when copying a route, so the audit log can
+    // tell copies from new routes. The copy also gets the source's
+    // uploaded tracks, which its stages still point at.
+    const duplicateOf = new URL(request.url).searchParams.get("duplicate_of");
+    if (duplicateOf) {
+      const source = await prisma.route.findFirst({
+        where: { routeId: duplicateOf, ...LIVE_ROUTE },
+        select: { id: true },
+      });
+      if (source) await copyTracks(source.id, newRoute.id, newRoute.stages);
+    }
 
-    // Map created route to single-route snake_case response matching requested `Route` type
-    const responseRoute = {
-      route_id: newRoute.routeId,
-      group_name: newRoute.groupName,
-      route_name: newRoute.routeName,
-      avg_daily_distance: normalizeAvgDailyDistance(newRoute.avgDailyDistance),
-      starting_point: (newRoute.startingPoint || []) as Prisma.InputJsonValue[],
-      stages: (newRoute.stages || []).map((s: CreatedStage) => ({
-        stage_number: s.stageNumber,
-        stage_name: s.stageName,
-        distance_km: s.distanceKm,
-        distance_miles: s.distanceMiles,
-        gpx: s.gpx,
-        details: {
-          total_distance: s.details.totalDistance,
-          total_time: s.details.totalTime,
-          accumulated_ascent: s.details.accumulatedAscent,
-          accumulated_descent: s.details.accumulatedDescent,
-          walking_surface: s.details.walkingSurface,
-          elevation_profile: s.details.elevationProfile,
-          challenges: s.details.challenges,
-          highlights: s.details.highlights,
-        },
-        facilities: (s.facilities || []).map((f: CreatedFacility) => ({
-          index: f.index,
-          name: f.name,
-          distance: f.distance,
-          services: f.services,
-        })),
-        accommodations: (s.accommodations || []).map(
-          (a: CreatedAccommodation) => ({
-            name: a.name,
-            price_category: a.priceCategory,
-            contact_url: a.contactUrl ?? null,
-            contact_phone: a.contactPhone ?? null,
-            lat: a.lat ?? null,
-            long: a.long ?? null,
-          }),
-        ),
-      })),
-    };
+    const actor = toActor(auth.user);
+    await recordRevision(newRoute, "create", actor);
+    const changes = summarizeChanges(null, newRoute);
+    if (duplicateOf) {
+      changes.unshift({
+        path: "duplicated_from",
+        before: null,
+        after: duplicateOf,
+      });
+    }
+    await recordAudit(
+      newRoute.routeId,
+      duplicateOf ? "duplicated" : "created",
+      actor,
+      changes,
+    );
 
-    return NextResponse.json(responseRoute);
+    return NextResponse.json({
+      ...formatRoute(newRoute),
+      version: routeVersion(newRoute),
+    });
   } catch (error) {
+    // Lost a race with a concurrent create of the same route_id
+    if (isUniqueConstraintError(error)) {
+      return routeIdConflict(requestedRouteId);
+    }
     console.error("Error creating route:", error);
     return NextResponse.json(
       { success: false, error: "Failed to create route" },
@@ -0,0 +1,22 @@
+import { routeExportJsonSchema } from "../../../../../lib/routeExport";
+import { NextResponse } from "next/server";
+
+// JSON Schema of the version 1 `{ routes: [...] }` export, generated from
+// the same zod definitions the API validates with
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    return NextResponse.json(routeExportJsonSchema(url.origin + url.pathname), {
+      headers: {
+        "Content-Type": "application/schema+json",
+        "Cache-Control": "public, max-age=3600",
+      },
+    });
+  } catch (error) {
+    console.error("Error generating route schema:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to generate route schema" },
+      { status: 500 },
+    );
+  }
+}
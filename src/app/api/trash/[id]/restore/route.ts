@@ -0,0 +1,69 @@
+import { versionConflict } from "../../../../../lib/apiErrors";
+import { recordAudit } from "../../../../../lib/audit";
+import { requireRole, toActor } from "../../../../../lib/auth";
+import prisma from "../../../../../lib/prisma";
+import { recordRevision } from "../../../../../lib/revisions";
+import { formatRoute } from "../../../../../lib/routeFormat";
+import { routeVersion, updateAtVersion } from "../../../../../lib/routeVersion";
+import { TRASHED_ROUTE } from "../../../../../lib/trash";
+import { NextResponse } from "next/server";
+
+// Takes a route out of the trash as it was when it was deleted
+export async function POST(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const params = await context.params;
+    const trashed = await prisma.route.findFirst({
+      where: { routeId: params.id, ...TRASHED_ROUTE },
+    });
+    if (!trashed?.deletedAt) {
+      return NextResponse.json(
+        { success: false, error: "Route not found in the trash" },
+        { status: 404 },
+      );
+    }
+
+    const result = await updateAtVersion(trashed, {
+      deletedAt: null,
+      deletedBy: null,
+    });
+    if (!result.route) {
+      return NextResponse.json(
+        { success: false, error: "Route not found in the trash" },
+        { status: 404 },
+      );
+    }
+    if (!result.saved) {
+      return versionConflict(
+        routeVersion(result.route),
+        formatRoute(result.route),
+      );
+    }
+    const restored = result.route;
+    const actor = toActor(auth.user);
+    await recordRevision(restored, "restore", actor);
+    await recordAudit(restored.routeId, "restored", actor, [
+      {
+        path: "deleted_at",
+        before: trashed.deletedAt.toISOString(),
+        after: null,
+      },
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      route: { ...formatRoute(restored), version: routeVersion(restored) },
+    });
+  } catch (error) {
+    console.error("Error restoring route:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to restore route" },
+      { status: 500 },
+    );
+  }
+}
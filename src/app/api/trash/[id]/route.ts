@@ -0,0 +1,37 @@
+import { recordAudit } from "../../../../lib/audit";
+import { requireRole, toActor } from "../../../../lib/auth";
+import prisma from "../../../../lib/prisma";
+import { TRASHED_ROUTE } from "../../../../lib/trash";
+import { NextResponse } from "next/server";
+
+// Permanently removes a route from the trash, along with its GPX files.
+// Its revisions and audit entries are kept.
+export async function DELETE(
+  _request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const auth = await requireRole("admin");
+    if (auth.error) return auth.error;
+
+    const params = await context.params;
+    const { count } = await prisma.route.deleteMany({
+      where: { routeId: params.id, ...TRASHED_ROUTE },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { success: false, error: "Route not found in the trash" },
+        { status: 404 },
+      );
+    }
+    await recordAudit(params.id, "purged", toActor(auth.user), []);
+
+    return NextResponse.json({ success: true, purged_route_id: params.id });
+  } catch (error) {
+    console.error("Error purging route:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to purge route" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { requireRole } from "../../../lib/auth";
+import prisma from "../../../lib/prisma";
+import {
+  getRetentionDays,
+  purgeDate,
+  purgeExpiredRoutes,
+  TRASHED_ROUTE,
+} from "../../../lib/trash";
+import { NextResponse } from "next/server";
+
+// Routes in the trash, most recently deleted first. Listing does not purge;
+// routes past their purge date stay listed until the POST below or
+// `npm run routes:purge-trash` removes them.
+export async function GET() {
+  try {
+    const auth = await requireRole("editor");
+    if (auth.error) return auth.error;
+
+    const routes = await prisma.route.findMany({
+      where: TRASHED_ROUTE,
+      orderBy: { deletedAt: "desc" },
+    });
+
+    return NextResponse.json({
+      retention_days: getRetentionDays(),
+      routes: routes.map((route) => ({
+        route_id: route.routeId,
+        route_name: route.routeName,
+        group_name: route.groupName,
+        stage_count: route.stages.length,
+        deleted_at: route.deletedAt,
+        deleted_by: route.deletedBy?.username ?? null,
+        purge_at: route.deletedAt ? purgeDate(route.deletedAt) : null,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch trash" },
+      { status: 500 },
+    );
+  }
+}
+
+// Purges the routes that have been in the trash longer than the retention
+// period
+export async function POST() {
+  try {
+    const auth = await requireRole("admin");
+    if (auth.error) return auth.error;
+
+    const purged = await purgeExpiredRoutes();
+    return NextResponse.json({ success: true, purged });
+  } catch (error) {
+    console.error("Error purging trash:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to purge trash" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { validationFailed } from "../../../../lib/apiErrors";
+import { formatUser, requireRole } from "../../../../lib/auth";
+import { hashPassword } from "../../../../lib/password";
+import prisma from "../../../../lib/prisma";
+import { toFieldErrors } from "../../../../lib/routeSchema";
+import { updateUserSchema } from "../../../../lib/userSchema";
+import { NextResponse } from "next/server";
+
+type UserContext = { params: Promise<{ id: string }> };
+
+// Prisma rejects malformed ObjectIds instead of finding nothing
+const OBJECT_ID = /^[a-f\d]{24}$/i;
+
+function userNotFound() {
+  return NextResponse.json(
+    { success: false, error: "User not found" },
+    { status: 404 },
+  );
+}
+
+// Admins cannot demote or delete themselves, so there is always one left
+function selfLockout() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: "You cannot remove your own admin access",
+      code: "self_lockout",
+    },
+    { status: 409 },
+  );
+}
+
+export async function PATCH(request: Request, context: UserContext) {
+  try {
+    const auth = await requireRole("admin");
+    if (auth.error) return auth.error;
+    const { id } = await context.params;
+    if (!OBJECT_ID.test(id)) return userNotFound();
+
+    const parsed = updateUserSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationFailed(toFieldErrors(parsed.error));
+    }
+    const { name, password, role } = parsed.data;
+    if (id === auth.user.id && role && role !== "admin") {
+      return selfLockout();
+    }
+
+    const existing = await prisma.user.findUnique({ where: { id } });
+    if (!existing) return userNotFound();
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: {
+        name,
+        role,
+        passwordHash: password ? await hashPassword(password) : undefined,
+      },
+    });
+    return NextResponse.json(formatUser(user));
+  } catch (error) {
+    console.error("Error updating user:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update user" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(_request: Request, context: UserContext) {
+  try {
+    const auth = await requireRole("admin");
+    if (auth.error) return auth.error;
+    const { id } = await context.params;
+    if (!OBJECT_ID.test(id)) return userNotFound();
+    if (id === auth.user.id) return selfLockout();
+
+    const { count } = await prisma.user.deleteMany({ where: { id } });
+    if (count === 0) return userNotFound();
+
+    return NextResponse.json({ success: true, deleted_user_id: id });
+  } catch (error) {
+    console.error("Error deleting user:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete user" },
+      { status: 500 },
+    );
+  }
+}
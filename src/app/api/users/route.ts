@@ -0,0 +1,64 @@
+import { validationFailed } from "../../../lib/apiErrors";
+import { formatUser, requireRole } from "../../../lib/auth";
+import { hashPassword } from "../../../lib/password";
+import prisma from "../../../lib/prisma";
+import { toFieldErrors } from "../../../lib/routeSchema";
+import { createUserSchema } from "../../../lib/userSchema";
+import { NextResponse } from "next/server";
+
+export async function GET() {
+  try {
+    const auth = await requireRole("admin");
+    if (auth.error) return auth.error;
+
+    const users = await prisma.user.findMany({ orderBy: { username: "asc" } });
+    return NextResponse.json({ users: users.map(formatUser) });
+  } catch (error) {
+    console.error("Error fetching users:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch users" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requireRole("admin");
+    if (auth.error) return auth.error;
+
+    const parsed = createUserSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationFailed(toFieldErrors(parsed.error));
+    }
+    const { username, name, password, role } = parsed.data;
+
+    const existing = await prisma.user.findUnique({ where: { username } });
+    if (existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Username "${username}" is taken`,
+          code: "username_conflict",
+        },
+        { status: 409 },
+      );
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        username,
+        name,
+        role,
+        passwordHash: await hashPassword(password),
+      },
+    });
+    return NextResponse.json(formatUser(user), { status: 201 });
+  } catch (error) {
+    console.error("Error creating user:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create user" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import { ScrollText, Search } from "lucide-react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  Suspense,
+  useCallback,
+  useEffect,
+  useState,
+  type FormEvent,
+} from "react";
+import type { AuditChange } from "../../lib/audit";
+
+type AuditEntry = {
+  id: string;
+  route_id: string;
+  action:
+    "created" | "updated" | "duplicated" | "deleted" | "restored" | "purged";
+  // null for automatic purges
+  actor: { id: string; username: string } | null;
+  changes: AuditChange[];
+  created_at: string;
+};
+
+const FILTER_KEYS = ["route_id", "user", "from", "to"] as const;
+type Filters = Record<(typeof FILTER_KEYS)[number], string>;
+
+const ACTION_STYLES: Record<AuditEntry["action"], string> = {
+  created: "text-emerald-300",
+  duplicated: "text-emerald-300",
+  updated: "text-cyan-300",
+  restored: "text-amber-300",
+  deleted: "text-red-300",
+  purged: "text-red-400",
+};
+
+// Changes beyond this are collapsed behind a toggle
+const VISIBLE_CHANGES = 5;
+
+const inputClass =
+  "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500";
+
+function formatValue(value: AuditChange["before"]) {
+  if (value === null) return "—";
+  return typeof value === "string" ? value || '""' : String(value);
+}
+
+function ChangeList({ changes }: { changes: AuditChange[] }) {
+  const [expanded, setExpanded] = useState(false);
+  if (changes.length === 0) {
+    return <p className="text-xs text-slate-500">No field changes</p>;
+  }
+  const shown = expanded ? changes : changes.slice(0, VISIBLE_CHANGES);
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {shown.map((change, i) => (
+        <li key={`${change.path}-${i}`} className="font-mono text-slate-400">
+          <span className="text-slate-300">{change.path}</span>:{" "}
+          <span className="text-red-300/80">{formatValue(change.before)}</span>
+          {" → "}
+          <span className="text-emerald-300/80">
+            {formatValue(change.after)}
+          </span>
+        </li>
+      ))}
+      {changes.length > VISIBLE_CHANGES && (
+        <li>
+          <button
+            type="button"
+            onClick={() => setExpanded((prev) => !prev)}
+            className="text-cyan-400 hover:text-cyan-300 hover:underline"
+          >
+            {expanded
+              ? "Show fewer"
+              : `Show ${changes.length - VISIBLE_CHANGES} more`}
+          </button>
+        </li>
+      )}
+    </ul>
+  );
+}
+
+function AuditLog() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [filters, setFilters] = useState<Filters>(() => {
+    const initial = {} as Filters;
+    FILTER_KEYS.forEach((key) => (initial[key] = searchParams.get(key) ?? ""));
+    return initial;
+  });
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = searchParams.toString();
+
+  const fetchEntries = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams(query);
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetch(`/api/audit?${params}`);
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data?.error || "Failed to load audit log");
+          return;
+        }
+        setEntries((prev) =>
+          cursor ? [...prev, ...data.entries] : data.entries,
+        );
+        setNextCursor(data.next_cursor);
+      } catch {
+        setError("Error fetching audit log");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [query],
+  );
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  // Filters live in the URL so a filtered log can be linked to
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const params = new URLSearchParams();
+    FILTER_KEYS.forEach((key) => {
+      if (filters[key].trim()) params.set(key, filters[key].trim());
+    });
+    router.replace(`/audit${params.size ? `?${params}` : ""}`);
+  };
+
+  const filterFields: Array<{
+    key: keyof Filters;
+    label: string;
+    type: string;
+  }> = [
+    { key: "route_id", label: "Route ID", type: "text" },
+    { key: "user", label: "User", type: "text" },
+    { key: "from", label: "From", type: "date" },
+    { key: "to", label: "To", type: "date" },
+  ];
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <header>
+        <h1 className="flex items-center gap-2 text-3xl font-bold text-white">
+          <ScrollText size={28} /> Audit Log
+        </h1>
+        <p className="text-slate-400">
+          Who created, changed, copied or deleted routes, and when
+        </p>
+      </header>
+
+      <form
+        onSubmit={handleSubmit}
+        className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end bg-slate-900 border border-slate-800 rounded-xl p-4"
+      >
+        {filterFields.map((field) => (
+          <label key={field.key} className="block">
+            <span className="block text-xs font-semibold text-slate-400 mb-1 uppercase tracking-wider">
+              {field.label}
+            </span>
+            <input
+              type={field.type}
+              value={filters[field.key]}
+              onChange={(e) =>
+                setFilters((prev) => ({ ...prev, [field.key]: e.target.value }))
+              }
+              className={inputClass}
+            />
+          </label>
+        ))}
+        <button
+          type="submit"
+          className="flex items-center justify-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-lg"
+        >
+          <Search size={16} /> Filter
+        </button>
+      </form>
+
+      {error && (
+        <div className="p-4 bg-red-900/20 border border-red-500/50 text-red-300 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {!loading && entries.length === 0 && !error ? (
+        <p className="text-center py-12 text-slate-500">
+          No audit entries match these filters.
+        </p>
+      ) : (
+        <ol className="bg-slate-900 border border-slate-800 rounded-xl divide-y divide-slate-800">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-3 p-4"
+            >
+              <div className="text-sm">
+                <span
+                  className={`text-xs uppercase tracking-wider ${ACTION_STYLES[entry.action]}`}
+                >
+                  {entry.action}
+                </span>{" "}
+                <Link
+                  href={`/routes/${encodeURIComponent(entry.route_id)}/history`}
+                  className="font-mono text-slate-200 hover:text-cyan-300 hover:underline"
+                >
+                  {entry.route_id}
+                </Link>
+                <span className="block text-xs text-slate-500">
+                  {new Date(entry.created_at).toLocaleString()} ·{" "}
+                  {entry.actor ? `by ${entry.actor.username}` : "automatic"}
+                </span>
+              </div>
+              <ChangeList changes={entry.changes} />
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center text-cyan-400">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-400"></div>
+        </div>
+      ) : (
+        nextCursor && (
+          <div className="flex justify-center">
+            <button
+              type="button"
+              onClick={() => fetchEntries(nextCursor)}
+              className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-cyan-300 rounded-lg text-sm"
+            >
+              Load more
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+export default function AuditPage() {
+  return (
+    <div className="min-h-screen bg-slate-950 p-8">
+      {/* useSearchParams needs a Suspense boundary */}
+      <Suspense>
+        <AuditLog />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { Copy, X } from "lucide-react";
+import { useState, type FormEvent } from "react";
+import {
+  VARIANT_LABELS,
+  VARIANT_TYPES,
+  type FieldError,
+  type VariantType,
+} from "../../lib/routeSchema";
+import type { RouteFormValues } from "./RouteFormUpdate";
+
+type DuplicateRouteDialogProps = {
+  route: RouteFormValues;
+  onClose: () => void;
+  onCreated: () => void;
+};
+
+const inputClass =
+  "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500";
+
+const labelClass =
+  "block text-xs font-semibold text-slate-400 mb-1 uppercase tracking-wider";
+
+const suggestedId = (route: RouteFormValues, type: VariantType) =>
+  `${route.route_id}-${type}`;
+
+const suggestedName = (route: RouteFormValues, type: VariantType) =>
+  `${route.route_name} (${VARIANT_LABELS[type]})`;
+
+// Copies a route as a variant of it. The ID and name follow the chosen type
+// until they are edited by hand. Reverse variants are generated server-side
+// (stages, tracks and facility distances turned around) rather than copied;
+// other copies get the route's uploaded tracks server-side too.
+export default function DuplicateRouteDialog({
+  route,
+  onClose,
+  onCreated,
+}: DuplicateRouteDialogProps) {
+  const [variantType, setVariantType] = useState<VariantType>("spiritual");
+  const [routeId, setRouteId] = useState(() => suggestedId(route, "spiritual"));
+  const [routeName, setRouteName] = useState(() =>
+    suggestedName(route, "spiritual"),
+  );
+  const [edited, setEdited] = useState({ id: false, name: false });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  // facility distances the reversal could not recompute
+  const [warnings, setWarnings] = useState<string[] | null>(null);
+
+  const handleTypeChange = (type: VariantType) => {
+    setVariantType(type);
+    if (!edited.id) setRouteId(suggestedId(route, type));
+    if (!edited.name) setRouteName(suggestedName(route, type));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setErrors({});
+    try {
+      const res =
+        variantType === "reverse"
+          ? await fetch(
+              `/api/route/${encodeURIComponent(route.route_id)}/reverse`,
+              {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                  route_id: routeId,
+                  route_name: routeName,
+                }),
+              },
+            )
+          : await fetch(
+              `/api/route?duplicate_of=${encodeURIComponent(route.route_id)}`,
+              {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                  ...route,
+                  route_id: routeId,
+                  route_name: routeName,
+                  variant_of: route.route_id,
+                  variant_type: variantType,
+                }),
+              },
+            );
+      const data = await res.json().catch(() => null);
+      if (res.ok) {
+        if (Array.isArray(data?.warnings) && data.warnings.length > 0) {
+          setWarnings(data.warnings);
+        } else {
+          onCreated();
+        }
+        return;
+      }
+      if (res.status === 409) {
+        setErrors({ route_id: data?.error || "Route ID already exists" });
+      } else if (res.status === 422 && Array.isArray(data?.errors)) {
+        setErrors(
+          Object.fromEntries(
+            (data.errors as FieldError[]).map((f) => [f.path, f.message]),
+          ),
+        );
+        setError("The copy did not pass validation");
+      } else {
+        setError(data?.error || "Failed to duplicate route");
+      }
+    } catch {
+      setError("Error duplicating route");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (warnings) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+        <div className="absolute inset-0 bg-black/70" onClick={onCreated} />
+        <div className="relative w-full max-w-lg bg-slate-950 border border-slate-800 rounded-2xl shadow-2xl p-6 space-y-4">
+          <div>
+            <p className="text-xs uppercase tracking-widest text-cyan-400">
+              Variant Added
+            </p>
+            <h2 className="text-xl font-bold text-white">{routeName}</h2>
+          </div>
+          <p className="text-sm text-slate-300">
+            These facility distances could not be read and were copied
+            unchanged; check them in the new route:
+          </p>
+          <ul className="space-y-1 text-xs text-amber-300 max-h-48 overflow-auto">
+            {warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={onCreated}
+              className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-lg"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/70" onClick={onClose} />
+      <form
+        onSubmit={handleSubmit}
+        className="relative w-full max-w-lg bg-slate-950 border border-slate-800 rounded-2xl shadow-2xl p-6 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-widest text-cyan-400">
+              Add Variant
+            </p>
+            <h2 className="text-xl font-bold text-white">{route.route_name}</h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-900/20 border border-red-500/50 text-red-300 rounded-lg text-sm">
+            {error}
+            {Object.entries(errors)
+              .filter(([path]) => path !== "route_id" && path !== "route_name")
+              .map(([path, message]) => (
+                <p key={path} className="font-mono text-xs mt-1">
+                  {path}: {message}
+                </p>
+              ))}
+          </div>
+        )}
+
+        <label className="block">
+          <span className={labelClass}>Variant type</span>
+          <select
+            value={variantType}
+            onChange={(e) => handleTypeChange(e.target.value as VariantType)}
+            className={inputClass}
+          >
+            {VARIANT_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {VARIANT_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          {variantType === "reverse" && (
+            <span className="text-slate-500 text-xs mt-1 block">
+              Stages, GPX tracks, ascent/descent and facility distances are
+              turned around to walk the route the other way.
+            </span>
+          )}
+        </label>
+        <label className="block">
+          <span className={labelClass}>Route ID</span>
+          <input
+            type="text"
+            value={routeId}
+            onChange={(e) => {
+              setRouteId(e.target.value);
+              setEdited((prev) => ({ ...prev, id: true }));
+            }}
+            className={inputClass}
+          />
+          {errors.route_id && (
+            <span className="text-red-400 text-xs mt-1 block">
+              {errors.route_id}
+            </span>
+          )}
+        </label>
+        <label className="block">
+          <span className={labelClass}>Route name</span>
+          <input
+            type="text"
+            value={routeName}
+            onChange={(e) => {
+              setRouteName(e.target.value);
+              setEdited((prev) => ({ ...prev, name: true }));
+            }}
+            className={inputClass}
+          />
+          {errors.route_name && (
+            <span className="text-red-400 text-xs mt-1 block">
+              {errors.route_name}
+            </span>
+          )}
+        </label>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || !routeId.trim()}
+            className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-lg disabled:opacity-50"
+          >
+            <Copy size={16} />
+            {saving ? "Adding..." : "Add variant"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import type { ElevationProfile } from "../../lib/trackStats";
+
+const WIDTH = 600;
+
+export default function ElevationProfileChart({
+  profile,
+  height = 120,
+  compact = false,
+}: {
+  profile: ElevationProfile;
+  height?: number;
+  compact?: boolean;
+}) {
+  const { points } = profile;
+  if (points.length < 2) return null;
+
+  const maxKm = points[points.length - 1][0] || 1;
+  const minEle = profile.min_elevation_m;
+  // keep flat stages from collapsing onto the baseline
+  const range = Math.max(profile.max_elevation_m - minEle, 20);
+  const x = (km: number) => (km / maxKm) * WIDTH;
+  const y = (ele: number) => height - ((ele - minEle) / range) * (height - 4);
+
+  const line = points
+    .map(([km, ele]) => `${x(km).toFixed(1)},${y(ele).toFixed(1)}`)
+    .join(" ");
+  const area = `M0,${height} L${line.replace(/ /g, " L")} L${WIDTH},${height} Z`;
+
+  return (
+    <div className="space-y-1">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full"
+        style={{ height: compact ? 40 : height }}
+        role="img"
+        aria-label={`Elevation profile from ${profile.min_elevation_m} m to ${profile.max_elevation_m} m over ${maxKm.toFixed(1)} km`}
+      >
+        {profile.steepest_segments.map((s) => (
+          <rect
+            key={`${s.start_km}-${s.end_km}`}
+            x={x(s.start_km)}
+            y={0}
+            width={Math.max(1, x(s.end_km) - x(s.start_km))}
+            height={height}
+            className="fill-amber-500/15"
+          />
+        ))}
+        <path d={area} className="fill-cyan-500/20" />
+        <polyline
+          points={line}
+          fill="none"
+          className="stroke-cyan-400"
+          strokeWidth={compact ? 1.5 : 2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      {!compact && (
+        <div className="flex flex-wrap justify-between gap-2 text-xs text-slate-400">
+          <span>
+            {profile.min_elevation_m} m &ndash; {profile.max_elevation_m} m
+            &middot; {maxKm.toFixed(1)} km
+          </span>
+          {profile.steepest_segments.length > 0 && (
+            <span className="text-amber-300">
+              Steepest:{" "}
+              {profile.steepest_segments
+                .map(
+                  (s) =>
+                    `${s.grade_percent > 0 ? "+" : ""}${s.grade_percent}% at km ${s.start_km}`,
+                )
+                .join(", ")}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,47 @@
-'use client';
+"use client";
 
-import { clsx } from 'clsx';
-import { LayoutList, PlusCircle } from 'lucide-react';
-import Link from 'next/link';
-import { usePathname } from 'next/navigation';
+import { clsx } from "clsx";
+import {
+  Folders,
+  LayoutList,
+  LogOut,
+  PlusCircle,
+  ScrollText,
+  Trash2,
+  Users,
+} from "lucide-react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import type { Role } from "../../lib/session";
+import { useSession } from "./useSession";
 
 export default function Navbar() {
   const pathname = usePathname();
+  const router = useRouter();
+  const { user, can } = useSession();
 
-  const navItems = [
-    { name: 'Import Route', href: '/', icon: PlusCircle },
-    { name: 'Routes List', href: '/routes', icon: LayoutList },
+  const navItems: Array<{
+    name: string;
+    href: string;
+    icon: typeof PlusCircle;
+    role: Role;
+  }> = [
+    { name: "Import Route", href: "/", icon: PlusCircle, role: "editor" },
+    { name: "Routes List", href: "/routes", icon: LayoutList, role: "viewer" },
+    { name: "Groups", href: "/groups", icon: Folders, role: "editor" },
+    { name: "Trash", href: "/trash", icon: Trash2, role: "editor" },
+    { name: "Audit Log", href: "/audit", icon: ScrollText, role: "editor" },
+    { name: "Users", href: "/users", icon: Users, role: "admin" },
   ];
 
+  const handleSignOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => null);
+    router.replace("/login");
+    router.refresh();
+  };
+
+  if (pathname === "/login") return null;
+
   return (
     <nav className="fixed top-0 left-0 right-0 z-50 bg-slate-950/80 backdrop-blur-md border-b border-slate-800">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -25,25 +54,45 @@ export default function Navbar() {
             </Link>
           </div>
           <div className="flex gap-4">
-            {navItems.map((item) => {
-              const isActive = pathname === item.href;
-              const Icon = item.icon;
-              return (
-                <Link
-                  key={item.href}
-                  href={item.href}
-                  className={clsx(
-                    'flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all duration-200',
-                    isActive
-                      ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/30 shadow-[0_0_15px_rgba(34,211,238,0.2)]'
-                      : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
-                  )}
+            {navItems
+              .filter((item) => can(item.role))
+              .map((item) => {
+                const isActive = pathname === item.href;
+                const Icon = item.icon;
+                return (
+                  <Link
+                    key={item.href}
+                    href={item.href}
+                    className={clsx(
+                      "flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all duration-200",
+                      isActive
+                        ? "bg-cyan-500/10 text-cyan-400 border border-cyan-500/30 shadow-[0_0_15px_rgba(34,211,238,0.2)]"
+                        : "text-slate-400 hover:text-slate-200 hover:bg-slate-800",
+                    )}
+                  >
+                    <Icon size={18} />
+                    <span>{item.name}</span>
+                  </Link>
+                );
+              })}
+            {user && (
+              <div className="flex items-center gap-3 pl-4 border-l border-slate-800">
+                <span className="text-sm text-slate-300">
+                  {user.name || user.username}
+                  <span className="ml-2 text-xs uppercase tracking-wider text-slate-500">
+                    {user.role}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={handleSignOut}
+                  title="Sign out"
+                  className="p-2 rounded-full text-slate-400 hover:text-slate-200 hover:bg-slate-800"
                 >
-                  <Icon size={18} />
-                  <span>{item.name}</span>
-                </Link>
-              );
-            })}
+                  <LogOut size={18} />
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
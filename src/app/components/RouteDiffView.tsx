@@ -0,0 +1,90 @@
+"use client";
+
+import { clsx } from "clsx";
+import { twMerge } from "tailwind-merge";
+import {
+  isEmptyDiff,
+  type RouteDiff,
+  type ValueChange,
+} from "../../lib/routeDiff";
+
+function cn(...inputs: (string | undefined | null | false)[]) {
+  return twMerge(clsx(inputs));
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string") return value;
+  const json = JSON.stringify(value);
+  return json.length > 120 ? `${json.slice(0, 117)}...` : json;
+}
+
+function ChangeList({ changes }: { changes: ValueChange[] }) {
+  return (
+    <ul className="divide-y divide-slate-800">
+      {changes.map((change) => (
+        <li
+          key={change.path}
+          className="grid grid-cols-1 md:grid-cols-[14rem_1fr_1fr] gap-2 py-2 text-sm"
+        >
+          <span className="font-mono text-xs text-slate-400 break-all">
+            {change.path}
+          </span>
+          <span className="text-red-300/90 line-through decoration-red-500/50 break-words">
+            {formatValue(change.before)}
+          </span>
+          <span className="text-emerald-300 break-words">
+            {formatValue(change.after)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const STATUS_STYLES = {
+  added: "bg-emerald-500/15 text-emerald-300 border-emerald-500/40",
+  removed: "bg-red-500/15 text-red-300 border-red-500/40",
+  changed: "bg-amber-500/15 text-amber-300 border-amber-500/40",
+};
+
+export default function RouteDiffView({ diff }: { diff: RouteDiff }) {
+  if (isEmptyDiff(diff)) {
+    return <p className="text-sm text-slate-500">No differences.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {diff.route.length > 0 && (
+        <section className="bg-slate-900/50 border border-slate-800 rounded-lg p-4">
+          <h4 className="text-sm font-bold text-cyan-400 uppercase tracking-wider mb-2">
+            Route
+          </h4>
+          <ChangeList changes={diff.route} />
+        </section>
+      )}
+      {diff.stages.map((stage) => (
+        <section
+          key={stage.stage_number}
+          className="bg-slate-900/50 border border-slate-800 rounded-lg p-4"
+        >
+          <div className="flex items-center gap-2 mb-2">
+            <h4 className="text-sm font-bold text-white">
+              Stage {stage.stage_number}
+              {stage.stage_name ? `: ${stage.stage_name}` : ""}
+            </h4>
+            <span
+              className={cn(
+                "px-2 py-0.5 rounded border text-xs uppercase tracking-wider",
+                STATUS_STYLES[stage.status],
+              )}
+            >
+              {stage.status}
+            </span>
+          </div>
+          {stage.changes.length > 0 && <ChangeList changes={stage.changes} />}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { clsx, type ClassValue } from "clsx";
+import {
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+  Search,
+  X,
+} from "lucide-react";
+import { useEffect, useState } from "react";
+import { twMerge } from "tailwind-merge";
+import { VARIANT_LABELS, VARIANT_TYPES } from "../../lib/routeSchema";
+
+function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
+
+// The list API's query parameters the routes page exposes (see
+// src/lib/routeQuery.ts); kept as strings, as they appear in the URL
+export const ROUTE_FILTER_KEYS = [
+  "q",
+  "group_name",
+  "variant",
+  "min_stages",
+  "max_stages",
+  "min_distance",
+  "max_distance",
+  "sort",
+  "order",
+] as const;
+
+export type RouteFilterValues = Record<
+  (typeof ROUTE_FILTER_KEYS)[number],
+  string
+>;
+
+export function filtersFromParams(params: URLSearchParams): RouteFilterValues {
+  const values = {} as RouteFilterValues;
+  ROUTE_FILTER_KEYS.forEach((key) => (values[key] = params.get(key) ?? ""));
+  return values;
+}
+
+// Only set filters, so cleared ones drop out of the URL. Values are not
+// trimmed here, or a space typed into the search box would vanish.
+export function filtersToParams(values: RouteFilterValues) {
+  const params = new URLSearchParams();
+  ROUTE_FILTER_KEYS.forEach((key) => {
+    if (values[key].trim()) params.set(key, values[key]);
+  });
+  return params;
+}
+
+// Typing settles before the list is refetched
+const DEBOUNCE_MS = 300;
+
+type RouteFiltersProps = {
+  value: RouteFilterValues;
+  onChange: (value: RouteFilterValues) => void;
+  groups: string[];
+};
+
+const inputClass =
+  "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500";
+
+const labelClass =
+  "block text-xs font-semibold text-slate-400 mb-1 uppercase tracking-wider";
+
+export default function RouteFilters({
+  value,
+  onChange,
+  groups,
+}: RouteFiltersProps) {
+  const [draft, setDraft] = useState(value);
+  // Follow outside changes, e.g. back/forward navigation
+  const [synced, setSynced] = useState(value);
+  if (synced !== value) {
+    setSynced(value);
+    setDraft(value);
+  }
+
+  useEffect(() => {
+    if (filtersToParams(draft).toString() === filtersToParams(value).toString())
+      return;
+    const timer = setTimeout(() => onChange(draft), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [draft, value, onChange]);
+
+  const set = (key: keyof RouteFilterValues, next: string) =>
+    setDraft((prev) => ({ ...prev, [key]: next }));
+
+  const isFiltered = ROUTE_FILTER_KEYS.some(
+    (key) => key !== "sort" && key !== "order" && value[key],
+  );
+
+  const rangeInput = (
+    key: keyof RouteFilterValues,
+    placeholder: string,
+    step: string,
+  ) => (
+    <input
+      type="number"
+      min={0}
+      step={step}
+      inputMode="decimal"
+      placeholder={placeholder}
+      value={draft[key]}
+      onChange={(e) => set(key, e.target.value)}
+      className={inputClass}
+    />
+  );
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-4">
+      <div className="relative">
+        <Search
+          size={16}
+          className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500"
+        />
+        <input
+          type="search"
+          placeholder="Search by route name or ID"
+          value={draft.q}
+          onChange={(e) => set("q", e.target.value)}
+          className={cn(inputClass, "pl-9")}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 items-end">
+        <label className="block">
+          <span className={labelClass}>Group</span>
+          <select
+            value={draft.group_name}
+            onChange={(e) => set("group_name", e.target.value)}
+            className={inputClass}
+          >
+            <option value="">All groups</option>
+            {groups.map((group) => (
+              <option key={group} value={group}>
+                {group}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className={labelClass}>Type</span>
+          <select
+            value={draft.variant}
+            onChange={(e) => set("variant", e.target.value)}
+            className={inputClass}
+          >
+            <option value="">All routes</option>
+            <option value="regular">Regular</option>
+            <option value="variant">Any variant</option>
+            {VARIANT_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {VARIANT_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="col-span-2 md:col-span-1">
+          <span className={labelClass}>Stages</span>
+          <div className="flex gap-2">
+            {rangeInput("min_stages", "Min", "1")}
+            {rangeInput("max_stages", "Max", "1")}
+          </div>
+        </div>
+        <div className="col-span-2 md:col-span-1">
+          <span className={labelClass}>Distance (km)</span>
+          <div className="flex gap-2">
+            {rangeInput("min_distance", "Min", "any")}
+            {rangeInput("max_distance", "Max", "any")}
+          </div>
+        </div>
+        <label className="block">
+          <span className={labelClass}>Sort by</span>
+          <select
+            value={draft.sort}
+            onChange={(e) => set("sort", e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Route ID</option>
+            <option value="name">Name</option>
+            <option value="stage_count">Stage count</option>
+            <option value="total_distance">Total distance</option>
+          </select>
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => set("order", draft.order === "desc" ? "" : "desc")}
+            title={draft.order === "desc" ? "Descending" : "Ascending"}
+            className="flex-1 flex items-center justify-center gap-1 px-3 py-2 text-sm rounded-lg bg-slate-800 hover:bg-slate-700 text-cyan-300"
+          >
+            {draft.order === "desc" ? (
+              <ArrowDownWideNarrow size={16} />
+            ) : (
+              <ArrowUpNarrowWide size={16} />
+            )}
+            {draft.order === "desc" ? "Desc" : "Asc"}
+          </button>
+          {isFiltered && (
+            <button
+              type="button"
+              onClick={() =>
+                onChange({
+                  ...filtersFromParams(new URLSearchParams()),
+                  sort: value.sort,
+                  order: value.order,
+                })
+              }
+              title="Clear filters"
+              className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300"
+            >
+              <X size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,10 +4,11 @@
 
 import { zodResolver } from "@hookform/resolvers/zod";
 import { clsx } from "clsx";
-import { ChevronDown, ChevronUp, Plus, Trash2 } from "lucide-react";
-import { useEffect, useState } from "react";
+import { ChevronDown, ChevronUp, Plus, Trash2, Upload } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
 import { createPortal } from "react-dom";
 import {
+  get,
   useFieldArray,
   useForm,
   useFormState,
@@ -19,99 +20,41 @@ import {
   type UseFormWatch,
   type UseFormSetValue,
 } from "react-hook-form";
-import type { InputHTMLAttributes } from "react";
+import type { InputHTMLAttributes, SelectHTMLAttributes } from "react";
 import { twMerge } from "tailwind-merge";
 import { z } from "zod";
+import {
+  routeSchema,
+  SERVICE_OPTIONS,
+  type FieldError,
+} from "../../lib/routeSchema";
+import { diffRoutes } from "../../lib/routeDiff";
+import { mergeRoutes } from "../../lib/routeMerge";
+import { formatDuration } from "../../lib/stageMeasures";
+import {
+  ACCOMMODATION_TRACK_WARNING_KM,
+  distanceToTrackKm,
+  findTrackDrift,
+  type ElevationProfile,
+  type TrackStats,
+} from "../../lib/trackStats";
+import ElevationProfileChart from "./ElevationProfileChart";
+import RouteDiffView from "./RouteDiffView";
+import RouteMap from "./RouteMap";
+import { useRouteGroups, type RouteGroupOption } from "./useRouteGroups";
+
+// Downsampled [lat, lon] tracks keyed by stage number
+type StageTracks = Record<number, Array<[number, number]>>;
 
 function cn(...inputs: (string | undefined | null | false)[]) {
   return twMerge(clsx(inputs));
 }
 
-// Zod Schema matching the complex JSON structure
-const routeSchema = z.object({
-  route_id: z.string().min(1, "Route ID is required"),
-  group_name: z.string().optional().default(""),
-  route_name: z.string().min(1, "Route Name is required"),
-  // route-level average daily distance metrics (array of objects)
-  avg_daily_distance: z
-    .array(
-      z.object({
-        range_value: z.string().optional(),
-        minimum_km: z.coerce.number().optional(),
-        minimum_mile: z.coerce.number().optional(),
-        maximum_km: z.coerce.number().optional(),
-        maximum_mile: z.coerce.number().optional(),
-        days: z.coerce.number().optional(),
-      }),
-    )
-    .optional(),
-  // route-level starting points
-  starting_point: z
-    .array(
-      z.object({
-        name: z.string().optional(),
-        avg_distance: z.string().optional(),
-        avg_daily: z.string().optional(),
-        stage_number: z.coerce.number().optional(),
-        accommodations: z
-          .array(
-            z.object({
-              name: z.string().optional(),
-              price_category: z.string().optional(),
-              contact_url: z.string().optional(),
-              contact_phone: z.string().optional(),
-              lat: z.coerce.number().optional(),
-              long: z.coerce.number().optional(),
-            }),
-          )
-          .optional(),
-      }),
-    )
-    .optional(),
-  stages: z.array(
-    z.object({
-      stage_number: z.coerce.number().min(1),
-      stage_name: z.string().min(1, "Stage Name is required"),
-      distance_km: z.coerce.number(),
-      distance_miles: z.coerce.number(),
-      gpx: z.string().optional(),
-      // per-stage details
-      details: z.object({
-        total_distance: z.string(),
-        total_time: z.string(),
-        accumulated_ascent: z.string(),
-        accumulated_descent: z.string(),
-        walking_surface: z.array(z.string()),
-        elevation_profile: z.string(),
-        challenges: z.array(z.string()),
-        highlights: z.array(z.string()),
-      }),
-      facilities: z.array(
-        z.object({
-          index: z.coerce.number(),
-          name: z.string().optional(),
-          distance: z.string().optional(),
-          services: z.array(z.string()),
-        }),
-      ),
-      accommodations: z.array(
-        z.object({
-          name: z.string(),
-          price_category: z.string(),
-          contact_url: z.string().optional(),
-          contact_phone: z.string().optional(),
-          lat: z.coerce.number().optional(),
-          long: z.coerce.number().optional(),
-        }),
-      ),
-    }),
-  ),
-});
-
 export type RouteFormValues = z.infer<typeof routeSchema>;
 
 type RouteFormUpdateProps = {
-  initialData?: RouteFormValues;
+  // `version` comes from the API and is sent back as `If-Match` on save
+  initialData?: RouteFormValues & { version?: number };
   targetRouteId?: string;
   onCancel?: () => void;
   onUpdated?: (data: Record<string, unknown>) => void;
@@ -125,6 +68,8 @@ function normalizeInitialData(input?: RouteFormValues): RouteFormValues {
       route_name: "",
       avg_daily_distance: [],
       starting_point: [],
+      variant_of: null,
+      variant_type: null,
       stages: [],
     };
   }
@@ -204,6 +149,9 @@ function normalizeInitialData(input?: RouteFormValues): RouteFormValues {
     route_name: input.route_name || "",
     avg_daily_distance: normalizedAvgDaily,
     starting_point: normalizedStarting,
+    // not edited here, but kept so saving does not detach a variant
+    variant_of: input.variant_of ?? null,
+    variant_type: input.variant_type ?? null,
     stages: input.stages || [],
   };
 }
@@ -223,6 +171,7 @@ export default function RouteFormUpdate({
   >(null);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [modalCountdown, setModalCountdown] = useState(5);
+  const { groups } = useRouteGroups();
 
   const {
     register,
@@ -236,17 +185,58 @@ export default function RouteFormUpdate({
     setError,
     clearErrors,
     getValues,
+    trigger,
   } = useForm<RouteFormValues>({
     resolver: zodResolver(routeSchema) as Resolver<RouteFormValues>,
     mode: "onChange",
     defaultValues: normalizeInitialData(initialData),
   });
 
+  // The route as last loaded from the server, used to show and merge what
+  // someone else changed when a save hits a version conflict
+  const [opened, setOpened] = useState(() => ({
+    version: initialData?.version,
+    route: normalizeInitialData(initialData),
+  }));
+  const [conflict, setConflict] = useState<{
+    version: number;
+    current: RouteFormValues;
+    mine: Record<string, unknown>;
+  } | null>(null);
+  // set after a merge: what both sides changed (empty for a clean merge)
+  const [mergeConflicts, setMergeConflicts] = useState<string[] | null>(null);
+
   useEffect(() => {
     reset(normalizeInitialData(initialData));
+    setOpened({
+      version: initialData?.version,
+      route: normalizeInitialData(initialData),
+    });
   }, [initialData, reset]);
 
   const isUpdateMode = Boolean(targetRouteId || initialData?.route_id);
+  const resolvedRouteId = targetRouteId || initialData?.route_id;
+
+  const [tracks, setTracks] = useState<StageTracks>({});
+  const loadTracks = useCallback(() => {
+    if (!resolvedRouteId) return;
+    fetch(`/api/route/${encodeURIComponent(resolvedRouteId)}/tracks`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const next: StageTracks = {};
+        (data?.tracks || []).forEach(
+          (t: { stage_number: number; points: Array<[number, number]> }) => {
+            next[t.stage_number] = t.points;
+          },
+        );
+        setTracks(next);
+      })
+      .catch(() => setTracks({}));
+  }, [resolvedRouteId]);
+
+  useEffect(() => {
+    loadTracks();
+  }, [loadTracks]);
 
   // Live-validate stage numbers as the user types
   // eslint-disable-next-line react-hooks/incompatible-library
@@ -470,14 +460,14 @@ export default function RouteFormUpdate({
     setResult(null);
 
     try {
-      // Transform route-level avg_daily_distance into objects with dynamic keys
+      // Route-level avg_daily_distance items are saved with their range as
+      // `label`, replacing the older `avg_daily_distance_N` keys
       const transformedAvgDaily = (data.avg_daily_distance || []).map(
         (item: Record<string, unknown>, idx: number) => {
           const rangeValue =
             (item && (item["range_value"] as string)) ||
             (item && (item[`avg_daily_distance_${idx + 1}`] as string)) ||
             "";
-          const keyName = `avg_daily_distance_${idx + 1}`;
           const restEntries = Object.entries(item || {}).filter(
             ([k]) =>
               !k.startsWith("avg_daily_distance_") && k !== "range_value",
@@ -486,7 +476,7 @@ export default function RouteFormUpdate({
             restEntries as [string, unknown][],
           );
           return {
-            [keyName]: rangeValue,
+            label: rangeValue,
             ...cleanRest,
           };
         },
@@ -497,45 +487,191 @@ export default function RouteFormUpdate({
         avg_daily_distance: transformedAvgDaily,
       };
 
-      const payload = { routes: [transformedData] };
-      const resolvedTargetId = targetRouteId || initialData?.route_id;
-      const isUpdate = Boolean(resolvedTargetId);
-      const url = isUpdate
-        ? `/api/route/${encodeURIComponent(resolvedTargetId as string)}`
-        : `/api/route`;
-      const method = isUpdate ? "PUT" : "POST";
-
-      const res = await fetch(url, {
-        method,
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
+      await saveRoute(transformedData, opened.version);
+    } catch {
+      setSubmissionStatus("error");
+      setResult({ error: "Network or parsing error" });
+    }
+  };
 
-      const resultData = await res.json();
-      if (res.ok) {
-        setSubmissionStatus("success");
-        // If updating an existing route, preserve existing behavior
-        if (isUpdate) {
-          setResult(resultData as Record<string, unknown>);
-          onUpdated?.(resultData as Record<string, unknown>);
-        } else {
-          // New create mode: show a success modal with countdown and clear the form
-          setShowSuccessModal(true);
-          setModalCountdown(5);
-          reset(normalizeInitialData(undefined));
-          setResult(null);
-          onUpdated?.(resultData as Record<string, unknown>);
-        }
-      } else {
-        setSubmissionStatus("error");
+  const saveRoute = async (
+    transformedData: Record<string, unknown>,
+    version: number | undefined,
+  ) => {
+    const resolvedTargetId = targetRouteId || initialData?.route_id;
+    const isUpdate = Boolean(resolvedTargetId);
+    // POST treats `{ routes: [...] }` as a bulk import, so creates send the bare route
+    const payload = isUpdate ? { routes: [transformedData] } : transformedData;
+    const url = isUpdate
+      ? `/api/route/${encodeURIComponent(resolvedTargetId as string)}`
+      : `/api/route`;
+    const method = isUpdate ? "PUT" : "POST";
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (isUpdate && version !== undefined) {
+      headers["If-Match"] = `"${version}"`;
+    }
+
+    const res = await fetch(url, {
+      method,
+      headers,
+      body: JSON.stringify(payload),
+    });
+
+    const resultData = await res.json();
+    if (res.ok) {
+      setSubmissionStatus("success");
+      setMergeConflicts(null);
+      // If updating an existing route, preserve existing behavior
+      if (isUpdate) {
+        setOpened({
+          version: resultData?.version,
+          route: normalizeInitialData(resultData as RouteFormValues),
+        });
         setResult(resultData as Record<string, unknown>);
+        onUpdated?.(resultData as Record<string, unknown>);
+      } else {
+        // New create mode: show a success modal with countdown and clear the form
+        setShowSuccessModal(true);
+        setModalCountdown(5);
+        reset(normalizeInitialData(undefined));
+        setResult(null);
+        onUpdated?.(resultData as Record<string, unknown>);
+      }
+    } else if (res.status === 412 && resultData?.current) {
+      // Someone else saved first; let the user decide how to proceed
+      setSubmissionStatus("idle");
+      setResult(null);
+      setConflict({
+        version: resultData.version,
+        current: normalizeInitialData(resultData.current as RouteFormValues),
+        mine: transformedData,
+      });
+    } else {
+      setSubmissionStatus("error");
+      setResult(resultData as Record<string, unknown>);
+      if (res.status === 422 && Array.isArray(resultData?.errors)) {
+        // Server paths look like `stages[3].details.total_time`
+        (resultData.errors as FieldError[]).forEach((fieldError) => {
+          const name = fieldError.path.replace(/\[(\d+)\]/g, ".$1");
+          setError(name as Path<RouteFormValues>, {
+            type: "server",
+            message: fieldError.message,
+          });
+        });
       }
+      if (res.status === 409) {
+        setError("route_id", {
+          type: "manual",
+          message: resultData?.error || "Route ID already exists",
+        });
+      }
+    }
+  };
+
+  const overwriteConflict = async () => {
+    if (!conflict) return;
+    setConflict(null);
+    setSubmissionStatus("loading");
+    try {
+      await saveRoute(conflict.mine, conflict.version);
     } catch {
       setSubmissionStatus("error");
       setResult({ error: "Network or parsing error" });
     }
   };
 
+  // Applies the other edits to the form without saving, so the merged
+  // result can be reviewed first
+  const mergeConflict = () => {
+    if (!conflict) return;
+    const { merged, conflicts } = mergeRoutes(
+      opened.route,
+      getValues(),
+      conflict.current,
+    );
+    reset(merged);
+    setOpened({ version: conflict.version, route: conflict.current });
+    setMergeConflicts(conflicts);
+    setConflict(null);
+  };
+
+  // A GPX upload bumps the route version. Only adopt the new version when
+  // the upload was the only write since it was loaded; otherwise keep the
+  // old one so saving still reports the other change.
+  const handleVersionChange = useCallback((version: number) => {
+    setOpened((prev) =>
+      prev.version !== undefined && version === prev.version + 1
+        ? { ...prev, version }
+        : prev,
+    );
+  }, []);
+
+  // Saves one stage through the stage endpoint, leaving the rest of the form
+  // and its unsaved edits alone. Returns a short status to show.
+  const saveStage = async (index: number) => {
+    if (!resolvedRouteId) return null;
+    if (!(await trigger(`stages.${index}`))) return "Fix the errors first";
+    const stage = getValues(`stages.${index}`);
+    const stageNumber = Number(stage.stage_number);
+    const isNew = !opened.route.stages.some(
+      (s) => Number(s.stage_number) === stageNumber,
+    );
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (opened.version !== undefined) {
+      headers["If-Match"] = `"${opened.version}"`;
+    }
+    try {
+      const res = await fetch(
+        `/api/route/${encodeURIComponent(resolvedRouteId)}/stages/${stageNumber}`,
+        {
+          method: isNew ? "POST" : "PUT",
+          headers,
+          body: JSON.stringify(stage),
+        },
+      );
+      const data = await res.json().catch(() => null);
+      if (res.ok) {
+        const { version, ...saved } = data;
+        // the saved stage is now part of what a full save is based on
+        setOpened((prev) => ({
+          version,
+          route: {
+            ...prev.route,
+            stages: [
+              ...prev.route.stages.filter(
+                (s) => Number(s.stage_number) !== stageNumber,
+              ),
+              saved,
+            ].sort((a, b) => Number(a.stage_number) - Number(b.stage_number)),
+          },
+        }));
+        return "Saved";
+      }
+      if (res.status === 412) {
+        return "The route changed since it was loaded; save the whole route";
+      }
+      if (res.status === 422 && Array.isArray(data?.errors)) {
+        (data.errors as FieldError[]).forEach((fieldError) => {
+          const name = fieldError.path.replace(/\[(\d+)\]/g, ".$1");
+          setError(`stages.${index}.${name}` as Path<RouteFormValues>, {
+            type: "server",
+            message: fieldError.message,
+          });
+        });
+        return "Not saved; see the errors below";
+      }
+      return data?.error || "Failed to save stage";
+    } catch {
+      return "Error saving stage";
+    }
+  };
+
   // modal countdown and auto-close
   useEffect(() => {
     if (!showSuccessModal) return;
@@ -585,9 +721,11 @@ export default function RouteFormUpdate({
               error={errors.route_name?.message}
               {...register("route_name")}
             />
-            <Input
-              label="Group Name"
+            <GroupSelect
+              label="Group"
               error={errors.group_name?.message}
+              groups={groups}
+              current={watch("group_name")}
               {...register("group_name")}
             />
           </div>
@@ -606,10 +744,10 @@ export default function RouteFormUpdate({
                       distance_miles: 0,
                       gpx: "",
                       details: {
-                        total_distance: "",
-                        total_time: "",
-                        accumulated_ascent: "",
-                        accumulated_descent: "",
+                        total_distance_m: null,
+                        total_time_min: null,
+                        accumulated_ascent_m: null,
+                        accumulated_descent_m: null,
                         walking_surface: [],
                         elevation_profile: "",
                         challenges: [],
@@ -640,6 +778,8 @@ export default function RouteFormUpdate({
               control={control}
               register={register}
               watch={watch}
+              setValue={setValue}
+              tracks={tracks}
             />
 
             <div className="space-y-6">
@@ -657,6 +797,11 @@ export default function RouteFormUpdate({
                   setError={setError}
                   clearErrors={clearErrors}
                   collapsedByDefault={isUpdateMode}
+                  routeId={resolvedRouteId}
+                  tracks={tracks}
+                  onTrackChanged={loadTracks}
+                  onVersionChange={handleVersionChange}
+                  onSave={isUpdateMode ? () => saveStage(index) : undefined}
                 />
               ))}
               {stageFields.length === 0 && (
@@ -667,6 +812,15 @@ export default function RouteFormUpdate({
             </div>
           </div>
 
+          {mergeConflicts && (
+            <div className="p-4 bg-amber-900/20 border border-amber-500/50 text-amber-200 rounded-lg text-sm">
+              Merged with the latest saved version.{" "}
+              {mergeConflicts.length > 0 &&
+                `Both you and someone else changed ${mergeConflicts.join(", ")}; your edits were kept. `}
+              Review and save again.
+            </div>
+          )}
+
           <div className="pt-6 border-t border-slate-700 flex flex-col sm:flex-row gap-3">
             {onCancel && (
               <button
@@ -709,6 +863,52 @@ export default function RouteFormUpdate({
               <pre>{JSON.stringify(result, null, 2)}</pre>
             </div>
           )} */}
+          {conflict &&
+            typeof document !== "undefined" &&
+            createPortal(
+              <div className="fixed top-0 left-0 w-screen h-screen z-9999 flex items-center justify-center">
+                <div className="absolute inset-0 bg-black/60" />
+                <div className="relative bg-slate-900 p-6 rounded-lg w-full max-w-3xl max-h-[85vh] overflow-y-auto z-10000 space-y-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-white">
+                      This route changed since you opened it
+                    </h3>
+                    <p className="text-sm text-slate-400">
+                      Someone else saved these changes. Merge them into your
+                      edits to review before saving, or overwrite them with your
+                      version.
+                    </p>
+                  </div>
+                  <RouteDiffView
+                    diff={diffRoutes(opened.route, conflict.current)}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setConflict(null)}
+                      className="px-4 py-2 rounded bg-slate-800 hover:bg-slate-700 text-slate-300"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={overwriteConflict}
+                      className="px-4 py-2 rounded bg-red-600 hover:bg-red-500 text-white"
+                    >
+                      Overwrite
+                    </button>
+                    <button
+                      type="button"
+                      onClick={mergeConflict}
+                      className="px-4 py-2 rounded bg-cyan-600 hover:bg-cyan-500 text-white"
+                    >
+                      Merge
+                    </button>
+                  </div>
+                </div>
+              </div>,
+              document.body,
+            )}
           {showSuccessModal &&
             typeof document !== "undefined" &&
             createPortal(
@@ -805,6 +1005,11 @@ function StageItem({
   setError,
   clearErrors,
   collapsedByDefault,
+  routeId,
+  tracks,
+  onTrackChanged,
+  onVersionChange,
+  onSave,
 }: {
   index: number;
   control: Control<RouteFormValues>;
@@ -817,14 +1022,29 @@ function StageItem({
   setError?: any;
   clearErrors?: any;
   collapsedByDefault?: boolean;
+  routeId?: string;
+  tracks: StageTracks;
+  onTrackChanged: () => void;
+  onVersionChange: (version: number) => void;
+  // saves just this stage (update mode); resolves to a status to show
+  onSave?: () => Promise<string | null>;
 }) {
   // If `collapsedByDefault` is true (update mode), start closed.
   const [isOpen, setIsOpen] = useState(() => !(collapsedByDefault ?? false));
   const [copyStatus, setCopyStatus] = useState<string | null>(null);
   const [localPasteError, setLocalPasteError] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<string | null>(null);
+  const [savingStage, setSavingStage] = useState(false);
 
   const displayedNumber =
     Number(watch(`stages.${index}.stage_number`)) || index + 1;
+  const totalTimeMin = watch(`stages.${index}.details.total_time_min`);
+  const totalTimeLabel =
+    totalTimeMin === null ||
+    totalTimeMin === undefined ||
+    `${totalTimeMin}` === ""
+      ? ""
+      : formatDuration(Number(totalTimeMin));
 
   // reactive per-field errors for this stage_number input
   const { errors: fieldErrors } = useFormState({ control });
@@ -975,9 +1195,36 @@ function StageItem({
             Paste
           </button>
 
+          {onSave && (
+            <button
+              type="button"
+              disabled={savingStage}
+              onClick={async (e) => {
+                e.stopPropagation();
+                setSavingStage(true);
+                setSaveStatus(await onSave());
+                setSavingStage(false);
+                setTimeout(() => setSaveStatus(null), 4000);
+              }}
+              className="p-2 text-slate-400 hover:text-cyan-300 hover:bg-slate-700 rounded transition-colors disabled:opacity-50"
+            >
+              {savingStage ? "Saving..." : "Save stage"}
+            </button>
+          )}
+
           {copyStatus && (
             <span className="text-xs text-emerald-300">{copyStatus}</span>
           )}
+          {saveStatus && (
+            <span
+              className={cn(
+                "text-xs",
+                saveStatus === "Saved" ? "text-emerald-300" : "text-amber-300",
+              )}
+            >
+              {saveStatus}
+            </span>
+          )}
           {localPasteError && (
             <span className="text-xs text-red-400">{localPasteError}</span>
           )}
@@ -1022,9 +1269,65 @@ function StageItem({
               step="0.1"
               {...register(`stages.${index}.distance_miles`)}
             />
-            <Input label="GPX File Name" {...register(`stages.${index}.gpx`)} />
+            <Input
+              label="GPX File Name"
+              readOnly
+              title="Set by uploading a GPX file below."
+              {...register(`stages.${index}.gpx`)}
+            />
           </div>
 
+          <GpxUpload
+            routeId={routeId}
+            stageNumber={displayedNumber}
+            current={{
+              distance_km: watch(`stages.${index}.distance_km`),
+              accumulated_ascent_m: watch(
+                `stages.${index}.details.accumulated_ascent_m`,
+              ),
+              accumulated_descent_m: watch(
+                `stages.${index}.details.accumulated_descent_m`,
+              ),
+            }}
+            profile={watch(`stages.${index}.profile`)}
+            onUploaded={(uploaded) => {
+              setValue(`stages.${index}.gpx`, uploaded.file_name, {
+                shouldDirty: true,
+              });
+              setValue(`stages.${index}.profile`, uploaded.profile, {
+                shouldDirty: true,
+              });
+              onTrackChanged();
+              if (uploaded.version !== undefined) {
+                onVersionChange(uploaded.version);
+              }
+            }}
+            onApplyStats={(stats) => {
+              const opts = { shouldDirty: true, shouldValidate: true };
+              setValue(`stages.${index}.distance_km`, stats.distance_km, opts);
+              setValue(
+                `stages.${index}.distance_miles`,
+                stats.distance_miles,
+                opts,
+              );
+              setValue(
+                `stages.${index}.details.total_distance_m`,
+                Math.round(stats.distance_km * 1000),
+                opts,
+              );
+              setValue(
+                `stages.${index}.details.accumulated_ascent_m`,
+                stats.ascent_m,
+                opts,
+              );
+              setValue(
+                `stages.${index}.details.accumulated_descent_m`,
+                stats.descent_m,
+                opts,
+              );
+            }}
+          />
+
           {/* Details Section */}
           <div className="bg-slate-900/50 p-4 rounded-lg space-y-4">
             <h4 className="text-sm font-bold text-cyan-400 uppercase tracking-wider">
@@ -1032,24 +1335,63 @@ function StageItem({
             </h4>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <Input
-                label="Total Distance String"
-                {...register(`stages.${index}.details.total_distance`)}
+                label="Total Distance (m)"
+                type="number"
+                min={0}
+                error={
+                  get(fieldErrors, `stages.${index}.details.total_distance_m`)
+                    ?.message ??
+                  get(fieldErrors, `stages.${index}.details.total_distance`)
+                    ?.message
+                }
+                {...register(`stages.${index}.details.total_distance_m`)}
               />
               <Input
-                label="Total Time"
-                {...register(`stages.${index}.details.total_time`)}
+                label={`Total Time (min)${totalTimeLabel ? ` · ${totalTimeLabel}` : ""}`}
+                type="number"
+                min={0}
+                step={1}
+                error={
+                  get(fieldErrors, `stages.${index}.details.total_time_min`)
+                    ?.message ??
+                  get(fieldErrors, `stages.${index}.details.total_time`)
+                    ?.message
+                }
+                {...register(`stages.${index}.details.total_time_min`)}
               />
               <Input
                 label="Elevation Profile"
                 {...register(`stages.${index}.details.elevation_profile`)}
               />
               <Input
-                label="Ascent"
-                {...register(`stages.${index}.details.accumulated_ascent`)}
+                label="Ascent (m)"
+                type="number"
+                min={0}
+                error={
+                  get(
+                    fieldErrors,
+                    `stages.${index}.details.accumulated_ascent_m`,
+                  )?.message ??
+                  get(fieldErrors, `stages.${index}.details.accumulated_ascent`)
+                    ?.message
+                }
+                {...register(`stages.${index}.details.accumulated_ascent_m`)}
               />
               <Input
-                label="Descent"
-                {...register(`stages.${index}.details.accumulated_descent`)}
+                label="Descent (m)"
+                type="number"
+                min={0}
+                error={
+                  get(
+                    fieldErrors,
+                    `stages.${index}.details.accumulated_descent_m`,
+                  )?.message ??
+                  get(
+                    fieldErrors,
+                    `stages.${index}.details.accumulated_descent`,
+                  )?.message
+                }
+                {...register(`stages.${index}.details.accumulated_descent_m`)}
               />
             </div>
 
@@ -1089,6 +1431,9 @@ function StageItem({
             control={control}
             stageIndex={index}
             register={register}
+            watch={watch}
+            setValue={setValue}
+            track={tracks[displayedNumber]}
           />
         </div>
       )}
@@ -1096,6 +1441,175 @@ function StageItem({
   );
 }
 
+type GpxSummary = {
+  file_name: string;
+  point_count: number;
+  bounds: {
+    min_lat: number;
+    min_lon: number;
+    max_lat: number;
+    max_lon: number;
+  };
+  stats: TrackStats;
+  profile: ElevationProfile | null;
+  // the route's version after the upload
+  version?: number;
+};
+
+const DRIFT_FIELD_LABELS = {
+  distance_km: "Distance (km)",
+  accumulated_ascent_m: "Ascent",
+  accumulated_descent_m: "Descent",
+};
+
+function GpxUpload({
+  routeId,
+  stageNumber,
+  current,
+  profile,
+  onUploaded,
+  onApplyStats,
+}: {
+  routeId?: string;
+  stageNumber: number;
+  current: Parameters<typeof findTrackDrift>[0];
+  profile?: ElevationProfile | null;
+  onUploaded: (summary: GpxSummary) => void;
+  onApplyStats: (stats: TrackStats) => void;
+}) {
+  const [summary, setSummary] = useState<GpxSummary | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const gpxUrl = routeId
+    ? `/api/route/${encodeURIComponent(routeId)}/stages/${stageNumber}/gpx`
+    : null;
+
+  useEffect(() => {
+    if (!gpxUrl) return;
+    let cancelled = false;
+    fetch(`${gpxUrl}?summary=1`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setSummary(data as GpxSummary | null);
+      })
+      .catch(() => {
+        if (!cancelled) setSummary(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [gpxUrl]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !gpxUrl) return;
+
+    try {
+      setUploading(true);
+      setUploadError(null);
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch(gpxUrl, { method: "PUT", body: formData });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setUploadError(data?.error || "Failed to upload GPX");
+        return;
+      }
+      setSummary(data as GpxSummary);
+      onUploaded(data as GpxSummary);
+    } catch (err) {
+      setUploadError("Error uploading GPX");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const formatCoord = (n: number) => n.toFixed(5);
+  const drifts = summary ? findTrackDrift(current, summary.stats) : [];
+
+  return (
+    <div className="bg-slate-900/50 p-4 rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-cyan-400 uppercase tracking-wider">
+          GPX Track
+        </h4>
+        {gpxUrl && (
+          <label
+            className={cn(
+              "text-xs bg-slate-700 px-2 py-1 rounded text-cyan-300 flex items-center gap-1 hover:bg-slate-600 cursor-pointer",
+              uploading && "opacity-50 cursor-not-allowed",
+            )}
+          >
+            <Upload size={12} />
+            {uploading
+              ? "Uploading..."
+              : summary
+                ? "Replace GPX"
+                : "Upload GPX"}
+            <input
+              type="file"
+              accept=".gpx,application/gpx+xml"
+              className="hidden"
+              disabled={uploading}
+              onChange={handleFile}
+            />
+          </label>
+        )}
+      </div>
+      {!gpxUrl && (
+        <p className="text-xs text-slate-500 italic">
+          Save the route before uploading a GPX track.
+        </p>
+      )}
+      {gpxUrl && !summary && !uploadError && (
+        <p className="text-xs text-slate-500 italic">No GPX uploaded yet.</p>
+      )}
+      {summary && (
+        <div className="text-xs text-slate-300 space-y-1">
+          <p>
+            <a
+              href={gpxUrl ?? undefined}
+              className="font-mono text-cyan-300 hover:underline"
+            >
+              {summary.file_name}
+            </a>{" "}
+            &middot; {summary.point_count} points
+          </p>
+          <p className="font-mono text-slate-400">
+            {formatCoord(summary.bounds.min_lat)},{" "}
+            {formatCoord(summary.bounds.min_lon)} &rarr;{" "}
+            {formatCoord(summary.bounds.max_lat)},{" "}
+            {formatCoord(summary.bounds.max_lon)}
+          </p>
+          <div className="flex items-center gap-3 pt-1">
+            <p className="text-slate-400">
+              Track: {summary.stats.distance_km} km &middot; +
+              {summary.stats.ascent_m} m / -{summary.stats.descent_m} m
+            </p>
+            <button
+              type="button"
+              onClick={() => onApplyStats(summary.stats)}
+              className="text-xs bg-slate-700 px-2 py-1 rounded text-cyan-300 hover:bg-slate-600"
+            >
+              Compute from track
+            </button>
+          </div>
+          {drifts.map((d) => (
+            <p key={d.field} className="text-amber-300">
+              {DRIFT_FIELD_LABELS[d.field]} is {d.stored}, but the track gives{" "}
+              {d.computed} ({Math.round(d.drift * 100)}% off).
+            </p>
+          ))}
+        </div>
+      )}
+      {profile && <ElevationProfileChart profile={profile} />}
+      {uploadError && <p className="text-xs text-red-400">{uploadError}</p>}
+    </div>
+  );
+}
+
 function FacilitiesInput({
   control,
   stageIndex,
@@ -1180,10 +1694,16 @@ function AccommodationsInput({
   control,
   stageIndex,
   register,
+  watch,
+  setValue,
+  track,
 }: {
   control: Control<RouteFormValues>;
   stageIndex: number;
   register: UseFormRegister<RouteFormValues>;
+  watch: UseFormWatch<RouteFormValues>;
+  setValue: UseFormSetValue<RouteFormValues>;
+  track?: Array<[number, number]>;
 }) {
   const { fields, append, remove } = useFieldArray({
     control,
@@ -1199,7 +1719,7 @@ function AccommodationsInput({
         <button
           type="button"
           onClick={() =>
-            append({ name: "", price_category: "$", lat: 0, long: 0 })
+            append({ name: "", price_category: "$", lat: null, long: null })
           }
           className="text-xs bg-slate-700 px-2 py-1 rounded text-cyan-300 flex items-center gap-1 hover:bg-slate-600"
         >
@@ -1242,17 +1762,14 @@ function AccommodationsInput({
                   `stages.${stageIndex}.accommodations.${k}.contact_phone`,
                 )}
               />
-              <Input
-                label="Latitude"
-                type="number"
-                step="0.000001"
-                {...register(`stages.${stageIndex}.accommodations.${k}.lat`)}
-              />
-              <Input
-                label="Longitude"
-                type="number"
-                step="0.000001"
-                {...register(`stages.${stageIndex}.accommodations.${k}.long`)}
+              <CoordinateFields
+                control={control}
+                register={register}
+                watch={watch}
+                setValue={setValue}
+                latName={`stages.${stageIndex}.accommodations.${k}.lat`}
+                longName={`stages.${stageIndex}.accommodations.${k}.long`}
+                track={track}
               />
             </div>
           </div>
@@ -1262,6 +1779,90 @@ function AccommodationsInput({
   );
 }
 
+function CoordinateFields({
+  control,
+  register,
+  watch,
+  setValue,
+  latName,
+  longName,
+  track,
+}: {
+  control: Control<RouteFormValues>;
+  register: UseFormRegister<RouteFormValues>;
+  watch: UseFormWatch<RouteFormValues>;
+  setValue: UseFormSetValue<RouteFormValues>;
+  latName: Path<RouteFormValues>;
+  longName: Path<RouteFormValues>;
+  // the related stage's track, when a GPX file has been uploaded
+  track?: Array<[number, number]>;
+}) {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const { errors } = useFormState({ control });
+
+  const rawLat = watch(latName) as unknown;
+  const rawLong = watch(longName) as unknown;
+  const isFilled = (v: unknown) => v !== null && v !== undefined && v !== "";
+  const lat = Number(rawLat);
+  const long = Number(rawLong);
+  const hasCoordinates =
+    isFilled(rawLat) &&
+    isFilled(rawLong) &&
+    Number.isFinite(lat) &&
+    Number.isFinite(long) &&
+    !(lat === 0 && long === 0);
+  const distanceKm =
+    hasCoordinates && track ? distanceToTrackKm(lat, long, track) : null;
+
+  return (
+    <>
+      <Input
+        label="Latitude"
+        type="number"
+        step="0.000001"
+        error={get(errors, latName)?.message}
+        {...register(latName)}
+      />
+      <Input
+        label="Longitude"
+        type="number"
+        step="0.000001"
+        error={get(errors, longName)?.message}
+        {...register(longName)}
+      />
+      <button
+        type="button"
+        onClick={() => setPickerOpen((open) => !open)}
+        className="text-xs bg-slate-700 px-2 py-1 rounded text-cyan-300 hover:bg-slate-600"
+      >
+        {pickerOpen ? "Hide map" : "Pick on map"}
+      </button>
+      {pickerOpen && (
+        <RouteMap
+          height={240}
+          tracks={track ? [{ id: "track", points: track }] : []}
+          markers={
+            hasCoordinates
+              ? [{ id: "picked", lat, lon: long, kind: "pick" }]
+              : []
+          }
+          onPick={(pickedLat, pickedLon) => {
+            const opts = { shouldDirty: true, shouldValidate: true };
+            setValue(latName, pickedLat as never, opts);
+            setValue(longName, pickedLon as never, opts);
+          }}
+        />
+      )}
+      {distanceKm !== null && distanceKm > ACCOMMODATION_TRACK_WARNING_KM && (
+        <p className="text-xs text-amber-300">
+          {distanceKm.toFixed(1)} km from the stage track. Check the
+          coordinates.
+        </p>
+      )}
+    </>
+  );
+}
+
 // Helper for array of strings (using a single comma separated input for simplicity or better UI?
 // Let's do simple tag-like input or just text inputs.
 // For complexity reduction, multiple text inputs with add button.)
@@ -1326,20 +1927,6 @@ function StringArrayInput({
   );
 }
 
-const SERVICE_OPTIONS = [
-  "Shop",
-  "ATM",
-  "Food_Drink",
-  "Camino_Stamp",
-  "Hotel",
-  "Guest_House",
-  "Supermarket",
-  "Campsite",
-  "Albergue",
-  "Pharmacy",
-  // "Blank_Space",
-];
-
 function ServicesSelectInput({
   name,
   label,
@@ -1352,8 +1939,8 @@ function ServicesSelectInput({
   setValue: UseFormSetValue<RouteFormValues>;
 }) {
   const value = (watch(name) as unknown as string[]) || [];
-  const [selected, setSelected] = useState(SERVICE_OPTIONS[0]);
-  const availableOptions = SERVICE_OPTIONS.filter(
+  const [selected, setSelected] = useState<string>(SERVICE_OPTIONS[0]);
+  const availableOptions: string[] = SERVICE_OPTIONS.filter(
     (option) => !value.includes(option),
   );
   const canAdd = availableOptions.length > 0;
@@ -1462,6 +2049,52 @@ function Input({
   );
 }
 
+// Picks one of the managed route groups. A route filed under a group that
+// no longer exists keeps showing it until another is picked.
+function GroupSelect({
+  label,
+  error,
+  groups,
+  current,
+  className,
+  ...props
+}: {
+  label: string;
+  error?: string;
+  groups: RouteGroupOption[];
+  current?: string;
+  className?: string;
+} & SelectHTMLAttributes<HTMLSelectElement>) {
+  const missing =
+    current && !groups.some((group) => group.name === current) ? current : null;
+
+  return (
+    <div className={className}>
+      <label className="block text-xs font-semibold text-slate-400 mb-1 uppercase tracking-wider">
+        {label}
+      </label>
+      <select
+        className={cn(
+          "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 transition-all",
+          error && "border-red-500 focus:border-red-500 focus:ring-red-500",
+        )}
+        {...props}
+        // controlled, so the choice survives the options loading later
+        value={current ?? ""}
+      >
+        <option value="">No group</option>
+        {groups.map((group) => (
+          <option key={group.id} value={group.name}>
+            {group.name}
+          </option>
+        ))}
+        {missing && <option value={missing}>{missing} (not a group)</option>}
+      </select>
+      {error && <p className="text-red-400 text-xs mt-1">{error}</p>}
+    </div>
+  );
+}
+
 function RouteAvgDailyDistanceInput({
   control,
   register,
@@ -1562,10 +2195,14 @@ function StartingPointInput({
   control,
   register,
   watch,
+  setValue,
+  tracks,
 }: {
   control: Control<RouteFormValues>;
   register: UseFormRegister<RouteFormValues>;
   watch: UseFormWatch<RouteFormValues>;
+  setValue: UseFormSetValue<RouteFormValues>;
+  tracks: StageTracks;
 }) {
   const { fields, append, remove } = useFieldArray({
     control,
@@ -1647,6 +2284,11 @@ function StartingPointInput({
                 control={control}
                 startingPointIndex={i}
                 register={register}
+                watch={watch}
+                setValue={setValue}
+                track={
+                  tracks[Number(watch(`starting_point.${i}.stage_number`))]
+                }
               />
             </div>
           </div>
@@ -1660,10 +2302,16 @@ function StartingPointAccommodationsInput({
   control,
   startingPointIndex,
   register,
+  watch,
+  setValue,
+  track,
 }: {
   control: Control<RouteFormValues>;
   startingPointIndex: number;
   register: UseFormRegister<RouteFormValues>;
+  watch: UseFormWatch<RouteFormValues>;
+  setValue: UseFormSetValue<RouteFormValues>;
+  track?: Array<[number, number]>;
 }) {
   const { fields, append, remove } = useFieldArray({
     control,
@@ -1684,8 +2332,8 @@ function StartingPointAccommodationsInput({
               price_category: "",
               contact_url: "",
               contact_phone: "",
-              lat: 0,
-              long: 0,
+              lat: null,
+              long: null,
             })
           }
           className="text-xs bg-slate-700 px-2 py-1 rounded text-cyan-300 flex items-center gap-1 hover:bg-slate-600"
@@ -1732,21 +2380,14 @@ function StartingPointAccommodationsInput({
                   `starting_point.${startingPointIndex}.accommodations.${accommodationIndex}.contact_phone`,
                 )}
               />
-              <Input
-                label="Latitude"
-                type="number"
-                step="0.000001"
-                {...register(
-                  `starting_point.${startingPointIndex}.accommodations.${accommodationIndex}.lat`,
-                )}
-              />
-              <Input
-                label="Longitude"
-                type="number"
-                step="0.000001"
-                {...register(
-                  `starting_point.${startingPointIndex}.accommodations.${accommodationIndex}.long`,
-                )}
+              <CoordinateFields
+                control={control}
+                register={register}
+                watch={watch}
+                setValue={setValue}
+                latName={`starting_point.${startingPointIndex}.accommodations.${accommodationIndex}.lat`}
+                longName={`starting_point.${startingPointIndex}.accommodations.${accommodationIndex}.long`}
+                track={track}
               />
             </div>
           </div>
@@ -0,0 +1,437 @@
+"use client";
+
+import { Minus, Plus } from "lucide-react";
+import {
+  useEffect,
+  useRef,
+  useState,
+  type PointerEvent as ReactPointerEvent,
+  type ReactNode,
+  type WheelEvent as ReactWheelEvent,
+} from "react";
+
+export type MapTrack = {
+  id: string;
+  points: Array<[number, number]>;
+};
+
+export type MapMarker = {
+  id: string;
+  lat: number;
+  lon: number;
+  kind: "stage" | "accommodation" | "pick";
+  // short text drawn inside the marker, e.g. the stage number
+  label?: string;
+  popup?: ReactNode;
+};
+
+// Tiles come from a self-hosted server when configured, e.g.
+// NEXT_PUBLIC_MAP_TILE_URL="http://tiles.local/{z}/{x}/{y}.png"; without
+// one the map draws a lat/long grid so it works fully offline.
+const TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || "";
+const TILE_ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_ATTRIBUTION || "";
+
+const TILE_SIZE = 256;
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 18;
+const DEFAULT_CENTER: [number, number] = [42.88, -8.54];
+// pointer travel (px) below which a drag counts as a click
+const CLICK_SLOP = 4;
+
+// Web Mercator, normalized to 0..1 at every zoom level
+function project(lat: number, lon: number) {
+  const clamped = Math.max(-85.05112878, Math.min(85.05112878, lat));
+  const sin = Math.sin((clamped * Math.PI) / 180);
+  return {
+    x: (lon + 180) / 360,
+    y: 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI),
+  };
+}
+
+function unproject(x: number, y: number) {
+  const lon = x * 360 - 180;
+  const n = Math.PI - 2 * Math.PI * y;
+  const lat = (180 / Math.PI) * Math.atan(Math.sinh(n));
+  return { lat, lon };
+}
+
+function fitView(
+  coords: Array<[number, number]>,
+  width: number,
+  height: number,
+) {
+  if (coords.length === 0) {
+    const center = project(...DEFAULT_CENTER);
+    return { center, zoom: 8 };
+  }
+
+  const projected = coords.map(([lat, lon]) => project(lat, lon));
+  const xs = projected.map((p) => p.x);
+  const ys = projected.map((p) => p.y);
+  const [minX, maxX] = [Math.min(...xs), Math.max(...xs)];
+  const [minY, maxY] = [Math.min(...ys), Math.max(...ys)];
+  const spanX = Math.max(maxX - minX, 1e-6);
+  const spanY = Math.max(maxY - minY, 1e-6);
+  const zoom = Math.floor(
+    Math.log2(
+      Math.min(
+        (width * 0.85) / (spanX * TILE_SIZE),
+        (height * 0.85) / (spanY * TILE_SIZE),
+      ),
+    ),
+  );
+
+  return {
+    center: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 },
+    zoom: Math.max(MIN_ZOOM, Math.min(15, zoom)),
+  };
+}
+
+function gridStep(zoom: number) {
+  const steps = [10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01, 0.005];
+  return steps[Math.max(0, Math.min(steps.length - 1, zoom - 4))];
+}
+
+export default function RouteMap({
+  tracks = [],
+  markers = [],
+  height = 480,
+  onPick,
+}: {
+  tracks?: MapTrack[];
+  markers?: MapMarker[];
+  height?: number;
+  // when set, clicking the map reports the clicked coordinate
+  onPick?: (lat: number, lon: number) => void;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(800);
+  const [view, setView] = useState<{
+    center: { x: number; y: number };
+    zoom: number;
+  } | null>(null);
+  const [openPopup, setOpenPopup] = useState<string | null>(null);
+  const dragRef = useRef<{
+    startX: number;
+    startY: number;
+    center: { x: number; y: number };
+    moved: boolean;
+  } | null>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setWidth(Math.max(200, Math.round(entry.contentRect.width))),
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit to the content until the user moves the map themselves
+  const contentCoords: Array<[number, number]> = [
+    ...tracks.flatMap((t) => t.points),
+    ...markers.map((m) => [m.lat, m.lon] as [number, number]),
+  ];
+  const current = view ?? fitView(contentCoords, width, height);
+  const scale = TILE_SIZE * 2 ** current.zoom;
+
+  const toScreen = (lat: number, lon: number) => {
+    const p = project(lat, lon);
+    return {
+      x: (p.x - current.center.x) * scale + width / 2,
+      y: (p.y - current.center.y) * scale + height / 2,
+    };
+  };
+
+  const toLatLon = (sx: number, sy: number) =>
+    unproject(
+      current.center.x + (sx - width / 2) / scale,
+      current.center.y + (sy - height / 2) / scale,
+    );
+
+  const zoomBy = (delta: number, anchor?: { x: number; y: number }) => {
+    const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, current.zoom + delta));
+    if (zoom === current.zoom) return;
+    const a = anchor ?? { x: width / 2, y: height / 2 };
+    // keep the point under the cursor fixed while zooming
+    const nx = current.center.x + (a.x - width / 2) / scale;
+    const ny = current.center.y + (a.y - height / 2) / scale;
+    const nextScale = TILE_SIZE * 2 ** zoom;
+    setView({
+      zoom,
+      center: {
+        x: nx - (a.x - width / 2) / nextScale,
+        y: ny - (a.y - height / 2) / nextScale,
+      },
+    });
+  };
+
+  const localPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return {
+      x: e.clientX - (rect?.left ?? 0),
+      y: e.clientY - (rect?.top ?? 0),
+    };
+  };
+
+  const handlePointerDown = (e: ReactPointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      startX: e.clientX,
+      startY: e.clientY,
+      center: current.center,
+      moved: false,
+    };
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < CLICK_SLOP) return;
+    drag.moved = true;
+    setView({
+      zoom: current.zoom,
+      center: { x: drag.center.x - dx / scale, y: drag.center.y - dy / scale },
+    });
+  };
+
+  const handlePointerUp = (e: ReactPointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved) return;
+    setOpenPopup(null);
+    if (onPick) {
+      // stop refitting to the content once a point has been picked
+      setView(current);
+      const p = localPoint(e);
+      const { lat, lon } = toLatLon(p.x, p.y);
+      onPick(Number(lat.toFixed(6)), Number(lon.toFixed(6)));
+    }
+  };
+
+  const handleWheel = (e: ReactWheelEvent<SVGSVGElement>) => {
+    zoomBy(e.deltaY < 0 ? 1 : -1, localPoint(e));
+  };
+
+  // Visible tiles, or grid lines when no tile server is configured
+  const topLeft = toLatLon(0, 0);
+  const bottomRight = toLatLon(width, height);
+  const tiles: Array<{ key: string; href: string; x: number; y: number }> = [];
+  const tileSize = scale / 2 ** Math.round(current.zoom);
+  if (TILE_URL) {
+    const z = Math.round(current.zoom);
+    const count = 2 ** z;
+    const x0 = Math.floor((current.center.x - width / 2 / scale) * count);
+    const x1 = Math.floor((current.center.x + width / 2 / scale) * count);
+    const y0 = Math.floor((current.center.y - height / 2 / scale) * count);
+    const y1 = Math.floor((current.center.y + height / 2 / scale) * count);
+    for (let tx = x0; tx <= x1; tx++) {
+      for (let ty = Math.max(0, y0); ty <= Math.min(count - 1, y1); ty++) {
+        const wrappedX = ((tx % count) + count) % count;
+        tiles.push({
+          key: `${z}-${tx}-${ty}`,
+          href: TILE_URL.replace("{z}", String(z))
+            .replace("{x}", String(wrappedX))
+            .replace("{y}", String(ty)),
+          x: (tx / count - current.center.x) * scale + width / 2,
+          y: (ty / count - current.center.y) * scale + height / 2,
+        });
+      }
+    }
+  }
+
+  const step = gridStep(current.zoom);
+  const latLines: number[] = [];
+  const lonLines: number[] = [];
+  if (!TILE_URL) {
+    for (
+      let lat = Math.ceil(bottomRight.lat / step) * step;
+      lat <= topLeft.lat;
+      lat += step
+    )
+      latLines.push(lat);
+    for (
+      let lon = Math.ceil(topLeft.lon / step) * step;
+      lon <= bottomRight.lon;
+      lon += step
+    )
+      lonLines.push(lon);
+  }
+
+  const popupMarker = markers.find((m) => m.id === openPopup);
+  const popupPosition = popupMarker
+    ? toScreen(popupMarker.lat, popupMarker.lon)
+    : null;
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full overflow-hidden rounded-xl border border-slate-800 bg-slate-900 select-none"
+      style={{ height }}
+    >
+      <svg
+        width={width}
+        height={height}
+        className={onPick ? "cursor-crosshair" : "cursor-grab"}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onWheel={handleWheel}
+      >
+        {tiles.map((t) => (
+          <image
+            key={t.key}
+            href={t.href}
+            x={t.x}
+            y={t.y}
+            width={tileSize}
+            height={tileSize}
+          />
+        ))}
+        {latLines.map((lat) => {
+          const y = toScreen(lat, 0).y;
+          return (
+            <g key={`lat-${lat}`}>
+              <line
+                x1={0}
+                x2={width}
+                y1={y}
+                y2={y}
+                className="stroke-slate-800"
+              />
+              <text x={4} y={y - 3} className="fill-slate-600 text-[10px]">
+                {lat.toFixed(step < 1 ? 3 : 0)}°
+              </text>
+            </g>
+          );
+        })}
+        {lonLines.map((lon) => {
+          const x = toScreen(0, lon).x;
+          return (
+            <g key={`lon-${lon}`}>
+              <line
+                x1={x}
+                x2={x}
+                y1={0}
+                y2={height}
+                className="stroke-slate-800"
+              />
+              <text
+                x={x + 3}
+                y={height - 4}
+                className="fill-slate-600 text-[10px]"
+              >
+                {lon.toFixed(step < 1 ? 3 : 0)}°
+              </text>
+            </g>
+          );
+        })}
+
+        {tracks.map((track) => (
+          <polyline
+            key={track.id}
+            points={track.points
+              .map(([lat, lon]) => {
+                const p = toScreen(lat, lon);
+                return `${p.x.toFixed(1)},${p.y.toFixed(1)}`;
+              })
+              .join(" ")}
+            fill="none"
+            className="stroke-cyan-400"
+            strokeWidth={3}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+          />
+        ))}
+
+        {markers.map((marker) => {
+          const p = toScreen(marker.lat, marker.lon);
+          return (
+            <g
+              key={marker.id}
+              transform={`translate(${p.x},${p.y})`}
+              className={marker.popup ? "cursor-pointer" : undefined}
+              onPointerDown={(e) => e.stopPropagation()}
+              onPointerUp={(e) => {
+                e.stopPropagation();
+                if (marker.popup) setOpenPopup(marker.id);
+              }}
+            >
+              {marker.kind === "stage" && (
+                <>
+                  <circle
+                    r={11}
+                    className="fill-slate-950 stroke-cyan-300"
+                    strokeWidth={2}
+                  />
+                  <text
+                    textAnchor="middle"
+                    dy="0.35em"
+                    className="fill-cyan-200 text-[10px] font-bold"
+                  >
+                    {marker.label}
+                  </text>
+                </>
+              )}
+              {marker.kind === "accommodation" && (
+                <rect
+                  x={-6}
+                  y={-6}
+                  width={12}
+                  height={12}
+                  rx={3}
+                  className="fill-purple-400 stroke-slate-950"
+                  strokeWidth={2}
+                />
+              )}
+              {marker.kind === "pick" && (
+                <path
+                  d="M0,0 L-7,-14 A8,8 0 1,1 7,-14 Z"
+                  className="fill-emerald-400 stroke-slate-950"
+                  strokeWidth={1.5}
+                />
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {popupMarker && popupPosition && (
+        <div
+          className="absolute z-10 min-w-40 max-w-64 -translate-x-1/2 -translate-y-full rounded-lg border border-slate-700 bg-slate-950 p-3 text-xs text-slate-200 shadow-xl"
+          style={{ left: popupPosition.x, top: popupPosition.y - 14 }}
+        >
+          {popupMarker.popup}
+        </div>
+      )}
+
+      <div className="absolute right-3 top-3 flex flex-col gap-1">
+        <button
+          type="button"
+          onClick={() => zoomBy(1)}
+          className="rounded bg-slate-800 p-1.5 text-slate-200 hover:bg-slate-700"
+          aria-label="Zoom in"
+        >
+          <Plus size={14} />
+        </button>
+        <button
+          type="button"
+          onClick={() => zoomBy(-1)}
+          className="rounded bg-slate-800 p-1.5 text-slate-200 hover:bg-slate-700"
+          aria-label="Zoom out"
+        >
+          <Minus size={14} />
+        </button>
+      </div>
+
+      {TILE_ATTRIBUTION && (
+        <div className="absolute bottom-1 right-2 text-[10px] text-slate-400">
+          {TILE_ATTRIBUTION}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { GitMerge, X } from "lucide-react";
+import { useEffect, useState } from "react";
+
+type VariantSyncStatus = {
+  variant_of: string;
+  tracked: boolean;
+  parent_changed: boolean;
+  overrides: string[];
+  inherited: string[];
+  upstream: string[];
+  conflicts: string[];
+};
+
+type VariantSyncDialogProps = {
+  routeId: string;
+  // sent as `If-Match` so a merge does not race an edit
+  version?: number;
+  canEdit: boolean;
+  onClose: () => void;
+  onMerged: () => void;
+};
+
+function PathList({ paths, empty }: { paths: string[]; empty: string }) {
+  if (paths.length === 0) {
+    return <p className="text-xs text-slate-500">{empty}</p>;
+  }
+  return (
+    <ul className="space-y-1 text-xs font-mono text-slate-300 max-h-40 overflow-auto">
+      {paths.map((path) => (
+        <li key={path}>{path}</li>
+      ))}
+    </ul>
+  );
+}
+
+// What a variant overrides and inherits from its parent, with a merge of
+// the parent's newer changes that keeps the overrides
+export default function VariantSyncDialog({
+  routeId,
+  version,
+  canEdit,
+  onClose,
+  onMerged,
+}: VariantSyncDialogProps) {
+  const [status, setStatus] = useState<VariantSyncStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  const url = `/api/route/${encodeURIComponent(routeId)}/sync`;
+
+  useEffect(() => {
+    fetch(url)
+      .then(async (res) => {
+        const data = await res.json().catch(() => null);
+        if (res.ok) setStatus(data as VariantSyncStatus);
+        else setError(data?.error || "Failed to compare with parent");
+      })
+      .catch(() => setError("Error comparing with parent"));
+  }, [url]);
+
+  const handleMerge = async () => {
+    setMerging(true);
+    setError(null);
+    try {
+      const headers: Record<string, string> = {};
+      if (version !== undefined) headers["If-Match"] = `"${version}"`;
+      const res = await fetch(url, { method: "POST", headers });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(
+          res.status === 412
+            ? "The variant changed since the list was loaded; reload and try again"
+            : data?.error || "Failed to merge parent changes",
+        );
+        return;
+      }
+      onMerged();
+    } catch {
+      setError("Error merging parent changes");
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const conflicts = new Set(status?.conflicts ?? []);
+  const mergeLabel = !status?.tracked
+    ? "Start tracking parent"
+    : status.upstream.length
+      ? `Merge ${status.upstream.length} change(s)`
+      : "Mark up to date";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <div className="absolute inset-0 bg-black/70" onClick={onClose} />
+      <div className="relative w-full max-w-2xl bg-slate-950 border border-slate-800 rounded-2xl shadow-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-widest text-cyan-400">
+              Sync With Parent
+            </p>
+            <h2 className="text-xl font-bold text-white font-mono">
+              {routeId}
+            </h2>
+            {status && (
+              <p className="text-sm text-slate-400">
+                Variant of{" "}
+                <span className="font-mono">{status.variant_of}</span>
+              </p>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-900/20 border border-red-500/50 text-red-300 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {!status && !error && (
+          <div className="flex justify-center text-cyan-400">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-400"></div>
+          </div>
+        )}
+
+        {status && !status.tracked && (
+          <p className="text-sm text-slate-300">
+            This variant is not tracking its parent yet, so its overrides are
+            unknown. Tracking starts from the parent as it is now: whatever
+            differs from it today is kept as an override.
+          </p>
+        )}
+
+        {status?.tracked && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <section className="space-y-2">
+              <h3 className="text-xs font-semibold text-amber-300 uppercase tracking-wider">
+                Changes available from parent
+              </h3>
+              <PathList
+                paths={status.upstream}
+                empty="Up to date with the parent"
+              />
+            </section>
+            <section className="space-y-2">
+              <h3 className="text-xs font-semibold text-cyan-300 uppercase tracking-wider">
+                Overridden here
+              </h3>
+              <PathList
+                paths={status.overrides.map((path) =>
+                  conflicts.has(path)
+                    ? `${path} (also changed upstream)`
+                    : path,
+                )}
+                empty="Nothing; everything follows the parent"
+              />
+            </section>
+            <section className="space-y-2 md:col-span-2">
+              <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+                Inherited
+              </h3>
+              <p className="text-xs font-mono text-slate-500">
+                {status.inherited.join(", ") || "Nothing"}
+              </p>
+            </section>
+          </div>
+        )}
+
+        {status?.tracked && status.conflicts.length > 0 && (
+          <p className="text-xs text-slate-400">
+            Fields changed on both sides keep this variant&apos;s value.
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg"
+          >
+            Close
+          </button>
+          {canEdit &&
+            status &&
+            (!status.tracked ||
+              status.parent_changed ||
+              status.upstream.length > 0) && (
+              <button
+                type="button"
+                onClick={handleMerge}
+                disabled={merging}
+                className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-lg disabled:opacity-50"
+              >
+                <GitMerge size={16} />
+                {merging ? "Merging..." : mergeLabel}
+              </button>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+export type RouteGroupOption = {
+  id: string;
+  name: string;
+  description: string;
+  position: number;
+  route_count: number;
+};
+
+// Route groups in display order, for pickers, filters and list sections
+export function useRouteGroups() {
+  const [groups, setGroups] = useState<RouteGroupOption[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch("/api/groups");
+      const data = await res.json();
+      if (Array.isArray(data?.groups)) {
+        setGroups(data.groups as RouteGroupOption[]);
+      }
+    } catch {
+      // nothing to offer; saving still checks group_name
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { groups, loaded, reload };
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { useEffect, useState } from "react";
+import { hasRole, type Role, type SessionUser } from "../../lib/session";
+
+// Current user for showing or hiding controls; the API enforces roles
+export function useSession() {
+  // re-read on navigation so signing in or out is picked up by the navbar
+  const pathname = usePathname();
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setUser((data?.user as SessionUser) ?? null))
+      .catch(() => setUser(null))
+      .finally(() => setLoaded(true));
+  }, [pathname]);
+
+  return {
+    user,
+    loaded,
+    can: (role: Role) => (user ? hasRole(user.role, role) : false),
+  };
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import {
+  ArrowDown,
+  ArrowUp,
+  FolderPlus,
+  Folders,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import Link from "next/link";
+import { useState, type FormEvent } from "react";
+import type { FieldError } from "../../lib/routeSchema";
+import {
+  useRouteGroups,
+  type RouteGroupOption,
+} from "../components/useRouteGroups";
+
+const EMPTY_FORM = { name: "", description: "" };
+
+const inputClass =
+  "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500";
+
+const labelClass =
+  "block text-xs font-semibold text-slate-400 mb-1 uppercase tracking-wider";
+
+export default function GroupsPage() {
+  const { groups, loaded, reload } = useRouteGroups();
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Sends a change and reloads the list; returns whether it was saved
+  const send = async (url: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    setFormErrors({});
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = await res.json().catch(() => null);
+      if (res.status === 422 && Array.isArray(data?.errors)) {
+        setFormErrors(
+          Object.fromEntries(
+            (data.errors as FieldError[]).map((f) => [f.path, f.message]),
+          ),
+        );
+        return false;
+      }
+      if (!res.ok) {
+        setError(data?.error || "Failed to save group");
+        return false;
+      }
+      await reload();
+      return true;
+    } catch {
+      setError("Error saving group");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const saved = editingId
+      ? await send(`/api/groups/${editingId}`, {
+          method: "PATCH",
+          body: JSON.stringify(form),
+        })
+      : await send("/api/groups", {
+          method: "POST",
+          body: JSON.stringify(form),
+        });
+    if (saved) {
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+    }
+  };
+
+  const handleEdit = (group: RouteGroupOption) => {
+    setEditingId(group.id);
+    setForm({ name: group.name, description: group.description });
+    setFormErrors({});
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormErrors({});
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const ids = groups.map((group) => group.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    send("/api/groups/reorder", {
+      method: "POST",
+      body: JSON.stringify({ ids }),
+    });
+  };
+
+  const handleDelete = (group: RouteGroupOption) => {
+    if (!confirm(`Delete group "${group.name}"?`)) return;
+    send(`/api/groups/${group.id}`, { method: "DELETE" });
+  };
+
+  if (!loaded) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-cyan-400">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-8">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <header>
+          <h1 className="flex items-center gap-2 text-3xl font-bold text-white">
+            <Folders size={28} /> Route Groups
+          </h1>
+          <p className="text-slate-400">
+            Groups and their order on the routes list. Renaming a group renames
+            it on its routes.
+          </p>
+        </header>
+
+        {error && (
+          <div className="p-4 bg-red-900/20 border border-red-500/50 text-red-300 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {groups.length === 0 ? (
+          <p className="text-center py-12 text-slate-500 bg-slate-900/50 rounded-2xl border border-slate-800">
+            No groups yet.
+          </p>
+        ) : (
+          <ol className="bg-slate-900 border border-slate-800 rounded-xl divide-y divide-slate-800">
+            {groups.map((group, index) => (
+              <li
+                key={group.id}
+                className="flex items-center justify-between gap-4 p-4"
+              >
+                <div>
+                  <p className="font-semibold text-white">{group.name}</p>
+                  {group.description && (
+                    <p className="text-sm text-slate-400">
+                      {group.description}
+                    </p>
+                  )}
+                  <Link
+                    href={`/routes?group_name=${encodeURIComponent(group.name)}`}
+                    className="text-xs text-cyan-400 hover:text-cyan-300 hover:underline"
+                  >
+                    {group.route_count} route(s)
+                  </Link>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={busy || index === 0}
+                    title="Move up"
+                    className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full disabled:opacity-30"
+                  >
+                    <ArrowUp size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={busy || index === groups.length - 1}
+                    title="Move down"
+                    className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full disabled:opacity-30"
+                  >
+                    <ArrowDown size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleEdit(group)}
+                    disabled={busy}
+                    title="Edit group"
+                    className="p-2 text-slate-400 hover:text-cyan-300 hover:bg-slate-800 rounded-full disabled:opacity-30"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(group)}
+                    disabled={busy || group.route_count > 0}
+                    title={
+                      group.route_count > 0
+                        ? "Move its routes to another group first"
+                        : "Delete group"
+                    }
+                    className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-full disabled:opacity-30"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <form
+          onSubmit={handleSubmit}
+          className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-4"
+        >
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            {editingId ? <Pencil size={20} /> : <FolderPlus size={20} />}
+            {editingId ? "Edit group" : "Add group"}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="block">
+              <span className={labelClass}>Name</span>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, name: e.target.value }))
+                }
+                className={inputClass}
+              />
+              {formErrors.name && (
+                <span className="text-red-400 text-xs mt-1 block">
+                  {formErrors.name}
+                </span>
+              )}
+            </label>
+            <label className="block md:col-span-2">
+              <span className={labelClass}>Description</span>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, description: e.target.value }))
+                }
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-6 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-lg disabled:opacity-50"
+            >
+              {editingId ? "Save group" : "Add group"}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={handleCancelEdit}
+                className="px-6 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-lg"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { LogIn } from "lucide-react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useState, type FormEvent } from "react";
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(data?.error || "Failed to sign in");
+        return;
+      }
+      // only follow same-site paths
+      const next = searchParams.get("next");
+      router.replace(
+        next?.startsWith("/") && !next.startsWith("//") ? next : "/routes",
+      );
+      router.refresh();
+    } catch {
+      setError("Network error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-full max-w-sm bg-slate-900 border border-slate-800 rounded-2xl p-8 space-y-4"
+    >
+      <h1 className="text-2xl font-bold text-white">Sign in</h1>
+      {error && (
+        <div className="p-3 bg-red-900/20 border border-red-500/50 text-red-300 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+      <label className="block">
+        <span className="block text-xs font-semibold text-slate-400 mb-1 uppercase tracking-wider">
+          Username
+        </span>
+        <input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          autoFocus
+          className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500"
+        />
+      </label>
+      <label className="block">
+        <span className="block text-xs font-semibold text-slate-400 mb-1 uppercase tracking-wider">
+          Password
+        </span>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500"
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={submitting || !username || !password}
+        className="w-full flex items-center justify-center gap-2 py-3 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-xl disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        <LogIn size={18} />
+        {submitting ? "Signing in..." : "Sign in"}
+      </button>
+    </form>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-slate-950 flex items-start justify-center p-8 pt-24">
+      {/* useSearchParams needs a Suspense boundary */}
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { ArrowLeft, History, RotateCcw } from "lucide-react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { diffRoutes } from "../../../../lib/routeDiff";
+import RouteDiffView from "../../../components/RouteDiffView";
+import { useSession } from "../../../components/useSession";
+
+type RevisionSummary = {
+  revision: number;
+  action: "create" | "update" | "delete" | "restore";
+  created_at: string;
+  actor: string | null;
+  route_name: string;
+  stage_count: number;
+};
+
+type Snapshot = Parameters<typeof diffRoutes>[0];
+
+const ACTION_STYLES: Record<RevisionSummary["action"], string> = {
+  create: "text-emerald-300",
+  update: "text-cyan-300",
+  delete: "text-red-300",
+  restore: "text-amber-300",
+};
+
+export default function RouteHistoryPage() {
+  const params = useParams<{ id: string }>();
+  const routeId = decodeURIComponent(params.id);
+  const encoded = encodeURIComponent(routeId);
+  const { can } = useSession();
+
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [fromRevision, setFromRevision] = useState<number | null>(null);
+  const [toRevision, setToRevision] = useState<number | null>(null);
+  const [snapshots, setSnapshots] = useState<Record<number, Snapshot>>({});
+  const [restoring, setRestoring] = useState<number | null>(null);
+  // the route's version when the history was loaded, null once purged
+  const [version, setVersion] = useState<number | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/route/${encoded}/revisions`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error || "Failed to load history");
+        return;
+      }
+      const list = data.revisions as RevisionSummary[];
+      setRevisions(list);
+      setVersion(data.version ?? null);
+      setToRevision(list[0]?.revision ?? null);
+      setFromRevision(list[1]?.revision ?? null);
+    } catch {
+      setError("Error fetching history");
+    } finally {
+      setLoading(false);
+    }
+  }, [encoded]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  // Snapshots are immutable, so each one is fetched once
+  useEffect(() => {
+    const missing = [fromRevision, toRevision].filter(
+      (r): r is number => r !== null && !(r in snapshots),
+    );
+    missing.forEach((revision) =>
+      fetch(`/api/route/${encoded}/revisions/${revision}`)
+        .then((res) => res.json())
+        .then((data) => {
+          if (data?.snapshot) {
+            setSnapshots((prev) => ({ ...prev, [revision]: data.snapshot }));
+          }
+        })
+        .catch(() => setError(`Error fetching revision ${revision}`)),
+    );
+  }, [encoded, fromRevision, toRevision, snapshots]);
+
+  const diff = useMemo(() => {
+    if (toRevision === null || !snapshots[toRevision]) return null;
+    if (fromRevision === null) return diffRoutes(null, snapshots[toRevision]);
+    if (!snapshots[fromRevision]) return null;
+    return diffRoutes(snapshots[fromRevision], snapshots[toRevision]);
+  }, [fromRevision, toRevision, snapshots]);
+
+  const compareWithPrevious = (revision: number) => {
+    const index = revisions.findIndex((r) => r.revision === revision);
+    setToRevision(revision);
+    setFromRevision(revisions[index + 1]?.revision ?? null);
+  };
+
+  const restore = async (revision: number) => {
+    if (
+      !confirm(
+        `Restore revision ${revision}? The current route will be replaced; its state stays in the history.`,
+      )
+    ) {
+      return;
+    }
+    setRestoring(revision);
+    setMessage(null);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/route/${encoded}/revisions/${revision}/restore`,
+        {
+          method: "POST",
+          headers: { "If-Match": version === null ? "*" : `"${version}"` },
+        },
+      );
+      const data = await res.json();
+      if (res.status === 412) {
+        setError(
+          "The route changed since this history was loaded. Review the latest revisions and try again.",
+        );
+        await loadRevisions();
+        return;
+      }
+      if (!res.ok) {
+        setError(data?.error || "Failed to restore revision");
+        return;
+      }
+      setMessage(`Restored revision ${revision}.`);
+      await loadRevisions();
+    } catch {
+      setError("Error restoring revision");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-cyan-400">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400"></div>
+      </div>
+    );
+  }
+
+  const latest = revisions[0];
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <header>
+          <Link
+            href="/routes"
+            className="inline-flex items-center gap-1 text-sm text-cyan-400 hover:text-cyan-300"
+          >
+            <ArrowLeft size={14} /> Routes List
+          </Link>
+          <h1 className="flex items-center gap-2 text-3xl font-bold text-white">
+            <History size={28} /> History
+          </h1>
+          <p className="text-slate-400 font-mono text-sm">{routeId}</p>
+        </header>
+
+        {error && (
+          <div className="p-4 bg-red-900/20 border border-red-500/50 text-red-300 rounded-lg">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="p-4 bg-emerald-900/20 border border-emerald-500/50 text-emerald-300 rounded-lg">
+            {message}
+          </div>
+        )}
+
+        {revisions.length > 0 && (
+          <div className="grid grid-cols-1 lg:grid-cols-[22rem_1fr] gap-6">
+            <ol className="space-y-2">
+              {revisions.map((r) => {
+                const isCurrent =
+                  r.revision === latest.revision && r.action !== "delete";
+                return (
+                  <li
+                    key={r.revision}
+                    className={`p-3 rounded-lg border bg-slate-900 ${
+                      r.revision === toRevision
+                        ? "border-cyan-500"
+                        : "border-slate-800"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <button
+                        type="button"
+                        onClick={() => compareWithPrevious(r.revision)}
+                        className="text-left"
+                      >
+                        <span className="font-semibold text-white">
+                          #{r.revision}
+                        </span>{" "}
+                        <span
+                          className={`text-xs uppercase tracking-wider ${ACTION_STYLES[r.action]}`}
+                        >
+                          {r.action}
+                        </span>
+                        <span className="block text-xs text-slate-500">
+                          {new Date(r.created_at).toLocaleString()} ·{" "}
+                          {r.actor ? `by ${r.actor} · ` : ""}
+                          {r.stage_count} stage(s)
+                        </span>
+                      </button>
+                      {isCurrent ? (
+                        <span className="text-xs text-slate-500">current</span>
+                      ) : (
+                        can("editor") && (
+                          <button
+                            type="button"
+                            onClick={() => restore(r.revision)}
+                            disabled={restoring !== null}
+                            className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-slate-800 hover:bg-slate-700 text-amber-300 disabled:opacity-50"
+                          >
+                            <RotateCcw size={12} />
+                            {restoring === r.revision
+                              ? "Restoring..."
+                              : "Restore"}
+                          </button>
+                        )
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+
+            <section className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+                <label className="flex items-center gap-2">
+                  From
+                  <select
+                    value={fromRevision ?? ""}
+                    onChange={(e) =>
+                      setFromRevision(
+                        e.target.value ? Number(e.target.value) : null,
+                      )
+                    }
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1"
+                  >
+                    <option value="">(nothing)</option>
+                    {revisions.map((r) => (
+                      <option key={r.revision} value={r.revision}>
+                        #{r.revision} {r.action}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  To
+                  <select
+                    value={toRevision ?? ""}
+                    onChange={(e) => setToRevision(Number(e.target.value))}
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1"
+                  >
+                    {revisions.map((r) => (
+                      <option key={r.revision} value={r.revision}>
+                        #{r.revision} {r.action}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {diff ? (
+                <RouteDiffView diff={diff} />
+              ) : (
+                <p className="text-sm text-slate-500">Loading revisions...</p>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
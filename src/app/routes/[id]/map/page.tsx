@@ -0,0 +1,220 @@
+"use client";
+
+import { ArrowLeft, Map } from "lucide-react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useState } from "react";
+import RouteMap, {
+  type MapMarker,
+  type MapTrack,
+} from "../../../components/RouteMap";
+import type { RouteFormValues } from "../../../components/RouteFormUpdate";
+
+type StageTrack = {
+  stage_number: number;
+  points: Array<[number, number]>;
+};
+
+type Accommodation = {
+  name?: string;
+  price_category?: string;
+  contact_url?: string | null;
+  contact_phone?: string | null;
+  lat?: number | null;
+  long?: number | null;
+};
+
+function hasCoordinates(a: Accommodation) {
+  return (
+    typeof a.lat === "number" &&
+    typeof a.long === "number" &&
+    !(a.lat === 0 && a.long === 0)
+  );
+}
+
+function AccommodationPopup({
+  accommodation,
+  context,
+}: {
+  accommodation: Accommodation;
+  context: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <p className="font-semibold text-white">{accommodation.name}</p>
+      <p className="text-slate-400">
+        {context}
+        {accommodation.price_category
+          ? ` · ${accommodation.price_category}`
+          : ""}
+      </p>
+      {accommodation.contact_phone && <p>{accommodation.contact_phone}</p>}
+      {accommodation.contact_url && (
+        <a
+          href={accommodation.contact_url}
+          target="_blank"
+          rel="noreferrer"
+          className="text-cyan-300 hover:underline break-all"
+        >
+          {accommodation.contact_url}
+        </a>
+      )}
+    </div>
+  );
+}
+
+export default function RouteMapPage() {
+  const params = useParams<{ id: string }>();
+  const routeId = decodeURIComponent(params.id);
+  const [route, setRoute] = useState<RouteFormValues | null>(null);
+  const [tracks, setTracks] = useState<StageTrack[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const encoded = encodeURIComponent(routeId);
+    Promise.all([
+      fetch(`/api/route/${encoded}`).then((res) => res.json()),
+      fetch(`/api/route/${encoded}/tracks`).then((res) => res.json()),
+    ])
+      .then(([routeData, trackData]) => {
+        if (!routeData?.route_id) {
+          setError(routeData?.error || "Failed to load route");
+          return;
+        }
+        setRoute(routeData as RouteFormValues);
+        setTracks((trackData?.tracks as StageTrack[]) || []);
+      })
+      .catch(() => setError("Error fetching route"))
+      .finally(() => setLoading(false));
+  }, [routeId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-cyan-400">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400"></div>
+      </div>
+    );
+  }
+
+  const stages = route?.stages || [];
+  const mapTracks: MapTrack[] = tracks.map((t) => ({
+    id: `stage-${t.stage_number}`,
+    points: t.points,
+  }));
+
+  const markers: MapMarker[] = [];
+  tracks.forEach((track, i) => {
+    const stage = stages.find((s) => s.stage_number === track.stage_number);
+    const popup = (
+      <div className="space-y-1">
+        <p className="font-semibold text-white">
+          Stage {track.stage_number}
+          {stage?.stage_name ? `: ${stage.stage_name}` : ""}
+        </p>
+        {stage && <p className="text-slate-400">{stage.distance_km} km</p>}
+      </div>
+    );
+    if (i === 0 && track.points.length > 0) {
+      const [lat, lon] = track.points[0];
+      markers.push({ id: "start", lat, lon, kind: "stage", label: "S", popup });
+    }
+    const last = track.points[track.points.length - 1];
+    if (last) {
+      markers.push({
+        id: `stage-end-${track.stage_number}`,
+        lat: last[0],
+        lon: last[1],
+        kind: "stage",
+        label: String(track.stage_number),
+        popup,
+      });
+    }
+  });
+
+  stages.forEach((stage) =>
+    (stage.accommodations || []).filter(hasCoordinates).forEach((a, k) =>
+      markers.push({
+        id: `stage-${stage.stage_number}-acc-${k}`,
+        lat: a.lat as number,
+        lon: a.long as number,
+        kind: "accommodation",
+        popup: (
+          <AccommodationPopup
+            accommodation={a}
+            context={`Stage ${stage.stage_number}`}
+          />
+        ),
+      }),
+    ),
+  );
+
+  (route?.starting_point || []).forEach((point, i) =>
+    (point.accommodations || []).filter(hasCoordinates).forEach((a, k) =>
+      markers.push({
+        id: `start-${i}-acc-${k}`,
+        lat: a.lat as number,
+        lon: a.long as number,
+        kind: "accommodation",
+        popup: (
+          <AccommodationPopup
+            accommodation={a}
+            context={`Starting point${point.name ? `: ${point.name}` : ""}`}
+          />
+        ),
+      }),
+    ),
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <Link
+              href="/routes"
+              className="inline-flex items-center gap-1 text-sm text-cyan-400 hover:text-cyan-300"
+            >
+              <ArrowLeft size={14} /> Routes List
+            </Link>
+            <h1 className="text-3xl font-bold text-white">
+              {route?.route_name || routeId}
+            </h1>
+            <p className="text-slate-400 font-mono text-sm">{routeId}</p>
+          </div>
+          <div className="flex gap-4 text-xs text-slate-400">
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-4 h-1 rounded bg-cyan-400" />
+              Stage track
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-full border-2 border-cyan-300" />
+              Stage end
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded bg-purple-400" />
+              Accommodation
+            </span>
+          </div>
+        </header>
+
+        {error && (
+          <div className="p-4 bg-red-900/20 border border-red-500/50 text-red-300 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {route && (
+          <>
+            <RouteMap tracks={mapTracks} markers={markers} height={600} />
+            {tracks.length === 0 && (
+              <p className="flex items-center gap-2 text-sm text-slate-500">
+                <Map size={16} /> No GPX tracks uploaded for this route yet.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
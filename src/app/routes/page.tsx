@@ -2,55 +2,202 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 "use client";
 
-import { Download, FileJson, Map, Trash2, X } from "lucide-react";
+import {
+  Copy,
+  Download,
+  FileJson,
+  GitMerge,
+  History,
+  Map,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
 import Link from "next/link";
-import { useEffect, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  Suspense,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import DuplicateRouteDialog from "../components/DuplicateRouteDialog";
+import RouteFilters, {
+  filtersFromParams,
+  filtersToParams,
+  type RouteFilterValues,
+} from "../components/RouteFilters";
 import RouteFormUpdate, {
   type RouteFormValues,
 } from "../components/RouteFormUpdate";
+import VariantSyncDialog from "../components/VariantSyncDialog";
+import { useRouteGroups } from "../components/useRouteGroups";
+import { useSession } from "../components/useSession";
+import ElevationProfileChart from "../components/ElevationProfileChart";
+import { VARIANT_LABELS } from "../../lib/routeSchema";
+import { concatProfiles, type ElevationProfile } from "../../lib/trackStats";
 
-export default function RoutesPage() {
-  const [routes, setRoutes] = useState<RouteFormValues[]>([]);
+type ImportReport = {
+  dry_run: boolean;
+  mode: string;
+  summary: {
+    total: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    failed: number;
+  };
+  results: Array<{
+    index: number;
+    route_id: string | null;
+    status: "created" | "updated" | "skipped" | "failed";
+    reason?: string;
+    errors?: Array<{ path: string; message: string }>;
+  }>;
+};
+
+// Variants also say whether their parent has changes to merge
+type RouteListItem = RouteFormValues & {
+  version?: number;
+  parent_changed?: boolean;
+};
+
+// Routes per page; more are fetched with "Load more"
+const PAGE_SIZE = 24;
+
+function RoutesList() {
+  const { can } = useSession();
+  const canEdit = can("editor");
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  // Filter state lives in the URL so filtered views can be bookmarked
+  const query = filtersToParams(filtersFromParams(searchParams)).toString();
+  const filters = useMemo(
+    () => filtersFromParams(new URLSearchParams(query)),
+    [query],
+  );
+  const [routes, setRoutes] = useState<RouteListItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const { groups } = useRouteGroups();
   const [loading, setLoading] = useState(true);
+  const [loaded, setLoaded] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedRoute, setSelectedRoute] = useState<RouteFormValues | null>(
     null,
   );
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [duplicatingId, setDuplicatingId] = useState<string | null>(null);
+  // the route the "Add variant" dialog is open for
+  const [duplicating, setDuplicating] = useState<RouteFormValues | null>(null);
+  // the variant the parent sync dialog is open for
+  const [syncing, setSyncing] = useState<RouteListItem | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchRoutes = useCallback(
+    async (cursor?: string) => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams(query);
+        params.set("limit", String(PAGE_SIZE));
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetch(`/api/route?${params}`);
+        const data = await res.json();
+        if (data.routes) {
+          setError(null);
+          setRoutes((prev) =>
+            cursor
+              ? [...prev, ...(data.routes as RouteListItem[])]
+              : (data.routes as RouteListItem[]),
+          );
+          setNextCursor(data.next_cursor ?? null);
+        } else {
+          setError(data?.error || "Failed to load routes");
+        }
+      } catch (err) {
+        if (err) setError("Error fetching routes");
+      } finally {
+        setLoading(false);
+        setLoaded(true);
+      }
+    },
+    [query],
+  );
 
   useEffect(() => {
     fetchRoutes();
-  }, []);
+  }, [fetchRoutes]);
 
-  const fetchRoutes = async () => {
-    try {
-      setLoading(true);
-      const res = await fetch("/api/route");
-      const data = await res.json();
-      if (data.routes) {
-        setRoutes(data.routes as RouteFormValues[]);
+  // Variants are listed under their parent when it is loaded too; otherwise
+  // they get a card of their own
+  const { topLevel, variantsOf } = useMemo(() => {
+    const loadedIds = new Set(routes.map((route) => route.route_id));
+    const variantsOf: Record<string, RouteListItem[]> = {};
+    const topLevel: RouteListItem[] = [];
+    routes.forEach((route) => {
+      if (route.variant_of && loadedIds.has(route.variant_of)) {
+        (variantsOf[route.variant_of] ??= []).push(route);
       } else {
-        setError("Failed to load routes");
+        topLevel.push(route);
       }
-    } catch (err) {
-      if (err) setError("Error fetching routes");
-    } finally {
-      setLoading(false);
-    }
-  };
+    });
+    return { topLevel, variantsOf };
+  }, [routes]);
 
-  const handleDownload = () => {
-    if (!routes.length) return;
+  // One section per group, in the groups' order, keeping the list's sort
+  // within each; routes without a known group come last
+  const sections = useMemo(() => {
+    const byGroup: Record<string, RouteListItem[]> = {};
+    topLevel.forEach((route) => {
+      const name = route.group_name || "";
+      (byGroup[name] ??= []).push(route);
+    });
+    const ordered = groups
+      .filter((group) => byGroup[group.name])
+      .map((group) => ({
+        name: group.name,
+        description: group.description,
+        routes: byGroup[group.name],
+      }));
+    const known = new Set(groups.map((group) => group.name));
+    const rest = topLevel.filter((route) => !known.has(route.group_name || ""));
+    return rest.length
+      ? [...ordered, { name: "", description: "", routes: rest }]
+      : ordered;
+  }, [topLevel, groups]);
 
-    // Format matches the requirement: { routes: [ ... ] }
-    // The API already returns { routes: [ ... ] } structure if we just fetched from /api/route?
-    // Actually /api/route returns { routes: [...] }.
-    // We stored that in state 'routes'.
-    // So we just wrap it back.
+  const handleFiltersChange = useCallback(
+    (next: RouteFilterValues) => {
+      const params = filtersToParams(next).toString();
+      router.replace(params ? `${pathname}?${params}` : pathname, {
+        scroll: false,
+      });
+    },
+    [router, pathname],
+  );
 
-    const downloadData = { routes };
+  // Always the full, unfiltered export, whatever the list is showing
+  const handleDownload = async () => {
+    let downloadData: { schema_version: number; routes: unknown[] };
+    try {
+      const res = await fetch("/api/route");
+      const data = await res.json();
+      if (!Array.isArray(data?.routes)) {
+        setError("Failed to export routes");
+        return;
+      }
+      downloadData = {
+        schema_version: data.schema_version,
+        routes: data.routes,
+      };
+    } catch {
+      setError("Error exporting routes");
+      return;
+    }
     const blob = new Blob([JSON.stringify(downloadData, null, 2)], {
       type: "application/json",
     });
@@ -64,47 +211,91 @@ export default function RoutesPage() {
     URL.revokeObjectURL(url);
   };
 
-  const handleOpenUpdate = (route: RouteFormValues) => {
-    setSelectedRoute(route);
-    setIsModalOpen(true);
-  };
-
-  const handleDuplicate = async (route: RouteFormValues, e?: any) => {
-    // prevent the card click from opening the modal
-    if (e?.stopPropagation) e.stopPropagation();
-    if (!route) return;
-    const originalId = route.route_id;
-    const newId = `${originalId}-spiritual`;
-    const duplicateRoute = { ...route, route_id: newId };
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // reset so picking the same file again still triggers onChange
+    e.target.value = "";
+    if (!file) return;
 
     try {
-      setDuplicatingId(originalId);
-      const res = await fetch("/api/route", {
+      setError(null);
+      setImportReport(null);
+      setImporting(true);
+
+      const parsed = JSON.parse(await file.text());
+      if (!Array.isArray(parsed?.routes)) {
+        setError("Import file must contain a { routes: [...] } export");
+        return;
+      }
+
+      // Upsert by route_id so re-importing an export is idempotent; the
+      // version lets the server upgrade older exports
+      const res = await fetch("/api/route?mode=upsert", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ routes: [duplicateRoute] }),
+        body: JSON.stringify({
+          schema_version: parsed.schema_version,
+          routes: parsed.routes,
+        }),
       });
-      const data = await res.json();
-      if (!res.ok) {
-        setError("Failed to duplicate route");
-      } else {
-        // refresh route list after successful creation
-        fetchRoutes();
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.summary) {
+        setError((data as any)?.error || "Failed to import routes");
+        return;
       }
+
+      setImportReport(data as ImportReport);
+      fetchRoutes();
     } catch (err) {
-      setError("Error duplicating route");
+      setError("Invalid JSON file");
     } finally {
-      setDuplicatingId(null);
+      setImporting(false);
     }
   };
 
+  const handleOpenUpdate = (route: RouteFormValues) => {
+    if (!canEdit) return;
+    setSelectedRoute(route);
+    setIsModalOpen(true);
+  };
+
+  const handleMerged = () => {
+    setSyncing(null);
+    fetchRoutes();
+  };
+
+  const syncButton = (route: RouteListItem, className: string) => (
+    <button
+      type="button"
+      onClick={(e) => {
+        // keep the card click from opening the modal
+        e.stopPropagation();
+        setSyncing(route);
+      }}
+      onKeyDown={(e) => e.stopPropagation()}
+      className={`${className} inline-flex items-center gap-1 text-xs hover:underline ${
+        route.parent_changed
+          ? "text-amber-300 hover:text-amber-200"
+          : "text-cyan-400 hover:text-cyan-300"
+      }`}
+    >
+      <GitMerge size={14} />
+      {route.parent_changed ? "Changes available from parent" : "Parent sync"}
+    </button>
+  );
+
+  const handleDuplicated = () => {
+    setDuplicating(null);
+    fetchRoutes();
+  };
+
   const handleDelete = async (routeId: string, e?: any) => {
     // prevent the card click from opening the modal
     if (e?.stopPropagation) e.stopPropagation();
     if (!routeId) return;
 
     const confirmed = window.confirm(
-      `Delete this route?\n\n${routeId}\n\nThis cannot be undone.`,
+      `Move this route to the trash?\n\n${routeId}\n\nIt can be restored from the Trash until it is purged.`,
     );
     if (!confirmed) return;
 
@@ -139,7 +330,7 @@ export default function RoutesPage() {
     fetchRoutes();
   };
 
-  if (loading) {
+  if (!loaded) {
     return (
       <div className="min-h-screen flex items-center justify-center text-cyan-400">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400"></div>
@@ -157,23 +348,96 @@ export default function RoutesPage() {
               Manage and export your hiking routes
             </p>
           </div>
-          <button
-            onClick={handleDownload}
-            disabled={!routes.length}
-            className="flex items-center gap-2 px-6 py-3 bg-linear-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold rounded-xl shadow-lg shadow-cyan-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all active:scale-95"
-          >
-            <Download size={20} />
-            Download All JSON
-          </button>
+          <div className="flex gap-3">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImportFile}
+            />
+            {canEdit && (
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={importing}
+                className="flex items-center gap-2 px-6 py-3 bg-slate-800 hover:bg-slate-700 text-cyan-300 font-bold rounded-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all active:scale-95"
+              >
+                <Upload size={20} />
+                {importing ? "Importing..." : "Import JSON"}
+              </button>
+            )}
+            <button
+              onClick={handleDownload}
+              disabled={!routes.length && !query}
+              className="flex items-center gap-2 px-6 py-3 bg-linear-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold rounded-xl shadow-lg shadow-cyan-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all active:scale-95"
+            >
+              <Download size={20} />
+              Download All JSON
+            </button>
+          </div>
         </header>
 
+        <RouteFilters
+          value={filters}
+          onChange={handleFiltersChange}
+          groups={groups.map((group) => group.name)}
+        />
+
         {error && (
           <div className="p-4 bg-red-900/20 border border-red-500/50 text-red-300 rounded-lg">
             {error}
           </div>
         )}
 
-        {routes.length === 0 && !error ? (
+        {importReport && (
+          <div className="p-4 bg-slate-900 border border-slate-800 rounded-lg text-sm text-slate-300 space-y-2">
+            <div className="flex items-center justify-between">
+              <p>
+                Imported {importReport.summary.total} routes:{" "}
+                {importReport.summary.created} created,{" "}
+                {importReport.summary.updated} updated,{" "}
+                {importReport.summary.skipped} skipped,{" "}
+                {importReport.summary.failed} failed.
+              </p>
+              <button
+                type="button"
+                onClick={() => setImportReport(null)}
+                className="p-1 text-slate-400 hover:text-white rounded-full"
+              >
+                <X size={14} />
+              </button>
+            </div>
+            {importReport.results
+              .filter((r) => r.status === "skipped" || r.status === "failed")
+              .map((r) => (
+                <p
+                  key={`import-${r.index}`}
+                  className={
+                    r.status === "failed" ? "text-red-300" : "text-amber-300"
+                  }
+                >
+                  #{r.index + 1} {r.route_id || "(no route_id)"}: {r.status}
+                  {r.reason ? ` - ${r.reason}` : ""}
+                  {r.errors?.length
+                    ? ` (${r.errors
+                        .map(
+                          (fieldError) =>
+                            `${fieldError.path}: ${fieldError.message}`,
+                        )
+                        .join("; ")})`
+                    : ""}
+                </p>
+              ))}
+          </div>
+        )}
+
+        {routes.length === 0 && !error && query ? (
+          <div className="text-center py-20 bg-slate-900/50 rounded-2xl border border-slate-800">
+            <h3 className="text-xl font-medium text-slate-300">
+              No routes match these filters
+            </h3>
+          </div>
+        ) : routes.length === 0 && !error ? (
           <div className="text-center py-20 bg-slate-900/50 rounded-2xl border border-slate-800">
             <Map size={48} className="mx-auto text-slate-600 mb-4" />
             <h3 className="text-xl font-medium text-slate-300">
@@ -190,106 +454,252 @@ export default function RoutesPage() {
             </Link>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {routes.map((route, index) => (
-              <div
-                key={`${route.route_id}-${index}`}
-                onClick={() => handleOpenUpdate(route)}
-                className="bg-slate-900 border border-slate-800 rounded-xl p-6 hover:border-cyan-500/30 transition-colors group cursor-pointer"
-                role="button"
-                tabIndex={0}
-                onKeyDown={(event) => {
-                  if (event.key === "Enter" || event.key === " ") {
-                    event.preventDefault();
-                    handleOpenUpdate(route);
-                  }
-                }}
-              >
-                <div className="flex items-start justify-between mb-4">
-                  <div className="bg-cyan-950/50 p-3 rounded-lg text-cyan-400 group-hover:text-cyan-300 group-hover:bg-cyan-900/50 transition-colors">
-                    <FileJson size={24} />
-                  </div>
-
-                  <div className="flex items-start gap-2">
-                    <div className="flex flex-col gap-1 items-end">
-                      <span className="text-xs font-mono text-slate-500 bg-slate-950 px-2 py-1 rounded">
-                        {route.route_id}
-                      </span>
-                      {route.route_id?.endsWith("-spiritual") && (
-                        <span>
-                          <span className="text-xs font-mono text-slate-200 bg-cyan-900 px-2 py-1 rounded">
-                            Spiritual Route
-                          </span>
-                        </span>
-                      )}
-                    </div>
-
-                    <button
-                      type="button"
-                      title="Delete route"
-                      aria-label={`Delete route ${route.route_id}`}
-                      onClick={(e) => handleDelete(route.route_id, e)}
-                      onKeyDown={(e) => e.stopPropagation()}
-                      disabled={deletingId === route.route_id}
-                      className="p-2 text-slate-400 hover:text-red-300 hover:bg-slate-800 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      <Trash2 size={16} />
-                    </button>
-                  </div>
-                </div>
-
-                <h3 className="text-xl font-bold text-slate-100 mb-2">
-                  {route.route_name}
-                </h3>
-                {route.group_name && (
-                  <p className="text-sm text-slate-400 mb-2">
-                    Group:{" "}
-                    <span className="font-mono text-slate-200">
-                      {route.group_name}
-                    </span>
-                  </p>
-                )}
-
-                <div className="space-y-2 text-sm text-slate-400">
-                  <div className="flex justify-between">
-                    <span>Stages:</span>
-                    <span className="font-mono text-slate-200">
-                      {route.stages?.length || 0}
+          <div className="space-y-10">
+            {sections.map((section) => (
+              <section key={section.name} className="space-y-4">
+                <div className="border-b border-slate-800 pb-2">
+                  <h2 className="text-xl font-bold text-slate-200">
+                    {section.name || "Ungrouped"}{" "}
+                    <span className="text-sm font-normal text-slate-500">
+                      ({section.routes.length})
                     </span>
-                  </div>
-                  {route.stages?.[0] && (
-                    <div className="flex justify-between">
-                      <span>First Stage:</span>
-                      <span className="truncate max-w-37.5">
-                        {route.stages[0].stage_name}
-                      </span>
-                    </div>
+                  </h2>
+                  {section.description && (
+                    <p className="text-sm text-slate-400">
+                      {section.description}
+                    </p>
                   )}
                 </div>
-                {!route.route_id?.endsWith("-spiritual") &&
-                  !routes.some(
-                    (r) => r.route_id === `${route.route_id}-spiritual`,
-                  ) && (
-                    <div className="mt-4 flex gap-2">
-                      <button
-                        type="button"
-                        onClick={(e) => handleDuplicate(route, e)}
-                        onKeyDown={(e) => e.stopPropagation()}
-                        disabled={duplicatingId === route.route_id}
-                        className="text-xs cursor-pointer px-3 py-2 bg-slate-800 hover:bg-slate-700 text-cyan-300 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {section.routes.map((route, index) => (
+                    <div key={`${route.route_id}-${index}`}>
+                      <div
+                        onClick={() => handleOpenUpdate(route)}
+                        className={`bg-slate-900 border border-slate-800 rounded-xl p-6 hover:border-cyan-500/30 transition-colors group ${canEdit ? "cursor-pointer" : ""}`}
+                        role={canEdit ? "button" : undefined}
+                        tabIndex={canEdit ? 0 : undefined}
+                        onKeyDown={(event) => {
+                          if (event.key === "Enter" || event.key === " ") {
+                            event.preventDefault();
+                            handleOpenUpdate(route);
+                          }
+                        }}
                       >
-                        {duplicatingId === route.route_id
-                          ? "Adding..."
-                          : "Add spiritual"}
-                      </button>
+                        <div className="flex items-start justify-between mb-4">
+                          <div className="bg-cyan-950/50 p-3 rounded-lg text-cyan-400 group-hover:text-cyan-300 group-hover:bg-cyan-900/50 transition-colors">
+                            <FileJson size={24} />
+                          </div>
+
+                          <div className="flex items-start gap-2">
+                            <div className="flex flex-col gap-1 items-end">
+                              <span className="text-xs font-mono text-slate-500 bg-slate-950 px-2 py-1 rounded">
+                                {route.route_id}
+                              </span>
+                              {route.variant_type && (
+                                <span className="text-xs font-mono text-slate-200 bg-cyan-900 px-2 py-1 rounded">
+                                  {VARIANT_LABELS[route.variant_type]} variant
+                                  of {route.variant_of}
+                                </span>
+                              )}
+                            </div>
+
+                            {canEdit && (
+                              <button
+                                type="button"
+                                title="Delete route"
+                                aria-label={`Delete route ${route.route_id}`}
+                                onClick={(e) => handleDelete(route.route_id, e)}
+                                onKeyDown={(e) => e.stopPropagation()}
+                                disabled={deletingId === route.route_id}
+                                className="p-2 text-slate-400 hover:text-red-300 hover:bg-slate-800 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            )}
+                          </div>
+                        </div>
+
+                        <h3 className="text-xl font-bold text-slate-100 mb-2">
+                          {route.route_name}
+                        </h3>
+                        <div className="space-y-2 text-sm text-slate-400">
+                          <div className="flex justify-between">
+                            <span>Stages:</span>
+                            <span className="font-mono text-slate-200">
+                              {route.stages?.length || 0}
+                            </span>
+                          </div>
+                          {route.stages?.[0] && (
+                            <div className="flex justify-between">
+                              <span>First Stage:</span>
+                              <span className="truncate max-w-37.5">
+                                {route.stages[0].stage_name}
+                              </span>
+                            </div>
+                          )}
+                        </div>
+                        {(() => {
+                          const profile = concatProfiles(
+                            (route.stages || [])
+                              .map((stage) => stage.profile)
+                              .filter((p): p is ElevationProfile => Boolean(p)),
+                          );
+                          return profile ? (
+                            <div className="mt-4">
+                              <ElevationProfileChart
+                                profile={profile}
+                                compact
+                              />
+                            </div>
+                          ) : null;
+                        })()}
+                        <Link
+                          href={`/routes/${encodeURIComponent(route.route_id)}/map`}
+                          onClick={(e) => e.stopPropagation()}
+                          onKeyDown={(e) => e.stopPropagation()}
+                          className="mt-4 inline-flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300 hover:underline"
+                        >
+                          <Map size={14} /> View map
+                        </Link>
+                        <Link
+                          href={`/routes/${encodeURIComponent(route.route_id)}/history`}
+                          onClick={(e) => e.stopPropagation()}
+                          onKeyDown={(e) => e.stopPropagation()}
+                          className="mt-4 ml-4 inline-flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300 hover:underline"
+                        >
+                          <History size={14} /> History
+                        </Link>
+                        {route.variant_of && syncButton(route, "mt-4 ml-4")}
+                        {canEdit && !route.variant_of && (
+                          <div className="mt-4 flex gap-2">
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                // keep the card click from opening the modal
+                                e.stopPropagation();
+                                setDuplicating(route);
+                              }}
+                              onKeyDown={(e) => e.stopPropagation()}
+                              className="flex items-center gap-1 text-xs cursor-pointer px-3 py-2 bg-slate-800 hover:bg-slate-700 text-cyan-300 rounded"
+                            >
+                              <Copy size={14} /> Add variant
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                      {variantsOf[route.route_id] && (
+                        <ul className="mt-2 ml-4 pl-4 border-l border-slate-800 space-y-2">
+                          {variantsOf[route.route_id].map((variant) => (
+                            <li
+                              key={variant.route_id}
+                              onClick={() => handleOpenUpdate(variant)}
+                              className={`flex items-start justify-between gap-2 bg-slate-900 border border-slate-800 rounded-lg p-3 hover:border-cyan-500/30 transition-colors ${canEdit ? "cursor-pointer" : ""}`}
+                              role={canEdit ? "button" : undefined}
+                              tabIndex={canEdit ? 0 : undefined}
+                              onKeyDown={(event) => {
+                                if (
+                                  event.key === "Enter" ||
+                                  event.key === " "
+                                ) {
+                                  event.preventDefault();
+                                  handleOpenUpdate(variant);
+                                }
+                              }}
+                            >
+                              <div className="min-w-0">
+                                {variant.variant_type && (
+                                  <span className="text-xs font-mono text-slate-200 bg-cyan-900 px-2 py-0.5 rounded">
+                                    {VARIANT_LABELS[variant.variant_type]}
+                                  </span>
+                                )}
+                                <p className="mt-1 font-semibold text-slate-100 truncate">
+                                  {variant.route_name}
+                                </p>
+                                <p className="text-xs font-mono text-slate-500 truncate">
+                                  {variant.route_id}
+                                </p>
+                                <Link
+                                  href={`/routes/${encodeURIComponent(variant.route_id)}/map`}
+                                  onClick={(e) => e.stopPropagation()}
+                                  onKeyDown={(e) => e.stopPropagation()}
+                                  className="mt-2 inline-flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300 hover:underline"
+                                >
+                                  <Map size={14} /> View map
+                                </Link>
+                                <Link
+                                  href={`/routes/${encodeURIComponent(variant.route_id)}/history`}
+                                  onClick={(e) => e.stopPropagation()}
+                                  onKeyDown={(e) => e.stopPropagation()}
+                                  className="mt-2 ml-4 inline-flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300 hover:underline"
+                                >
+                                  <History size={14} /> History
+                                </Link>
+                                {syncButton(variant, "mt-2 ml-4")}
+                              </div>
+                              {canEdit && (
+                                <button
+                                  type="button"
+                                  title="Delete route"
+                                  aria-label={`Delete route ${variant.route_id}`}
+                                  onClick={(e) =>
+                                    handleDelete(variant.route_id, e)
+                                  }
+                                  onKeyDown={(e) => e.stopPropagation()}
+                                  disabled={deletingId === variant.route_id}
+                                  className="p-2 text-slate-400 hover:text-red-300 hover:bg-slate-800 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
-                  )}
-              </div>
+                  ))}
+                </div>
+              </section>
             ))}
           </div>
         )}
+
+        {loading ? (
+          <div className="flex justify-center text-cyan-400">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-400"></div>
+          </div>
+        ) : (
+          nextCursor && (
+            <div className="flex justify-center">
+              <button
+                type="button"
+                onClick={() => fetchRoutes(nextCursor)}
+                className="px-6 py-3 bg-slate-800 hover:bg-slate-700 text-cyan-300 font-bold rounded-xl"
+              >
+                Load more
+              </button>
+            </div>
+          )
+        )}
       </div>
 
+      {syncing && (
+        <VariantSyncDialog
+          routeId={syncing.route_id}
+          version={syncing.version}
+          canEdit={canEdit}
+          onClose={() => setSyncing(null)}
+          onMerged={handleMerged}
+        />
+      )}
+
+      {duplicating && (
+        <DuplicateRouteDialog
+          route={duplicating}
+          onClose={() => setDuplicating(null)}
+          onCreated={handleDuplicated}
+        />
+      )}
+
       {isModalOpen && selectedRoute && (
         <div className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-black/70 p-6">
           <div className="absolute inset-0" onClick={handleCloseUpdate} />
@@ -324,3 +734,12 @@ export default function RoutesPage() {
     </div>
   );
 }
+
+export default function RoutesPage() {
+  return (
+    // useSearchParams needs a Suspense boundary
+    <Suspense>
+      <RoutesList />
+    </Suspense>
+  );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import { RotateCcw, Trash2 } from "lucide-react";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useSession } from "../components/useSession";
+
+type TrashedRoute = {
+  route_id: string;
+  route_name: string;
+  group_name: string;
+  stage_count: number;
+  deleted_at: string;
+  deleted_by: string | null;
+  purge_at: string;
+};
+
+export default function TrashPage() {
+  const { can } = useSession();
+  const [routes, setRoutes] = useState<TrashedRoute[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchTrash = async () => {
+    try {
+      const res = await fetch("/api/trash");
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error || "Failed to load trash");
+        return;
+      }
+      setRoutes(data.routes as TrashedRoute[]);
+      setRetentionDays(data.retention_days);
+    } catch {
+      setError("Error fetching trash");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const handleRestore = async (routeId: string) => {
+    setError(null);
+    setMessage(null);
+    setBusyId(routeId);
+    try {
+      const res = await fetch(
+        `/api/trash/${encodeURIComponent(routeId)}/restore`,
+        { method: "POST" },
+      );
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(data?.error || "Failed to restore route");
+        return;
+      }
+      setRoutes((prev) => prev.filter((r) => r.route_id !== routeId));
+      setMessage(`Restored ${routeId}.`);
+    } catch {
+      setError("Error restoring route");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (routeId: string) => {
+    const confirmed = window.confirm(
+      `Permanently delete this route?\n\n${routeId}\n\nIts GPX files are removed too. This cannot be undone.`,
+    );
+    if (!confirmed) return;
+
+    setError(null);
+    setMessage(null);
+    setBusyId(routeId);
+    try {
+      const res = await fetch(`/api/trash/${encodeURIComponent(routeId)}`, {
+        method: "DELETE",
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(data?.error || "Failed to purge route");
+        return;
+      }
+      setRoutes((prev) => prev.filter((r) => r.route_id !== routeId));
+    } catch {
+      setError("Error purging route");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurgeExpired = async () => {
+    setError(null);
+    setMessage(null);
+    setBusyId("");
+    try {
+      const res = await fetch("/api/trash", { method: "POST" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(data?.error || "Failed to purge trash");
+        return;
+      }
+      const purged = data.purged as string[];
+      setRoutes((prev) => prev.filter((r) => !purged.includes(r.route_id)));
+      setMessage(`Purged ${purged.length} expired route(s).`);
+    } catch {
+      setError("Error purging trash");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const now = Date.now();
+  const hasExpired = routes.some(
+    (route) => new Date(route.purge_at).getTime() <= now,
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-cyan-400">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <header className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+          <div>
+            <h1 className="flex items-center gap-2 text-3xl font-bold text-white">
+              <Trash2 size={28} /> Trash
+            </h1>
+            <p className="text-slate-400">
+              Deleted routes can be restored until they are purged
+              {retentionDays !== null &&
+                `, ${retentionDays} day(s) after deletion`}
+              .
+            </p>
+          </div>
+          {can("admin") && hasExpired && (
+            <button
+              type="button"
+              onClick={handlePurgeExpired}
+              disabled={busyId !== null}
+              className="flex items-center gap-1 px-3 py-2 text-xs rounded bg-slate-800 hover:bg-red-900/60 text-red-300 disabled:opacity-50"
+            >
+              <Trash2 size={12} /> Purge expired
+            </button>
+          )}
+        </header>
+
+        {error && (
+          <div className="p-4 bg-red-900/20 border border-red-500/50 text-red-300 rounded-lg">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="p-4 bg-emerald-900/20 border border-emerald-500/50 text-emerald-300 rounded-lg">
+            {message}
+          </div>
+        )}
+
+        {routes.length === 0 ? (
+          <p className="text-center py-20 text-slate-500 bg-slate-900/50 rounded-2xl border border-slate-800">
+            The trash is empty.
+          </p>
+        ) : (
+          <ul className="bg-slate-900 border border-slate-800 rounded-xl divide-y divide-slate-800">
+            {routes.map((route) => (
+              <li
+                key={route.route_id}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4"
+              >
+                <div>
+                  <p className="font-semibold text-white">{route.route_name}</p>
+                  <p className="text-sm text-slate-500">
+                    <span className="font-mono">{route.route_id}</span>
+                    {route.group_name && ` · ${route.group_name}`} ·{" "}
+                    {route.stage_count} stage(s)
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    Deleted {new Date(route.deleted_at).toLocaleString()}
+                    {route.deleted_by && ` by ${route.deleted_by}`} · purged{" "}
+                    {new Date(route.purge_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Link
+                    href={`/routes/${encodeURIComponent(route.route_id)}/history`}
+                    className="text-xs text-cyan-400 hover:text-cyan-300 hover:underline"
+                  >
+                    History
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={() => handleRestore(route.route_id)}
+                    disabled={busyId !== null}
+                    className="flex items-center gap-1 px-3 py-2 text-xs rounded bg-slate-800 hover:bg-slate-700 text-amber-300 disabled:opacity-50"
+                  >
+                    <RotateCcw size={12} />
+                    {busyId === route.route_id ? "Working..." : "Restore"}
+                  </button>
+                  {can("admin") && (
+                    <button
+                      type="button"
+                      onClick={() => handlePurge(route.route_id)}
+                      disabled={busyId !== null}
+                      className="flex items-center gap-1 px-3 py-2 text-xs rounded bg-slate-800 hover:bg-red-900/60 text-red-300 disabled:opacity-50"
+                    >
+                      <Trash2 size={12} /> Purge
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
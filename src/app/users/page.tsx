@@ -0,0 +1,247 @@
+"use client";
+
+import { Trash2, UserPlus, Users } from "lucide-react";
+import { useEffect, useState, type FormEvent } from "react";
+import type { FieldError } from "../../lib/routeSchema";
+import { ROLES, type Role } from "../../lib/session";
+import { useSession } from "../components/useSession";
+
+type UserRow = {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+  created_at: string;
+};
+
+const EMPTY_FORM = {
+  username: "",
+  name: "",
+  password: "",
+  role: "viewer" as Role,
+};
+
+const inputClass =
+  "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500";
+
+export default function UsersPage() {
+  const { user: currentUser } = useSession();
+  const [users, setUsers] = useState<UserRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const fetchUsers = async () => {
+    try {
+      const res = await fetch("/api/users");
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error || "Failed to load users");
+        return;
+      }
+      setUsers(data.users as UserRow[]);
+    } catch {
+      setError("Error fetching users");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setFormErrors({});
+    try {
+      const res = await fetch("/api/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await res.json().catch(() => null);
+      if (res.status === 422 && Array.isArray(data?.errors)) {
+        setFormErrors(
+          Object.fromEntries(
+            (data.errors as FieldError[]).map((f) => [f.path, f.message]),
+          ),
+        );
+        return;
+      }
+      if (!res.ok) {
+        setError(data?.error || "Failed to create user");
+        return;
+      }
+      setForm(EMPTY_FORM);
+      fetchUsers();
+    } catch {
+      setError("Error creating user");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRoleChange = async (user: UserRow, role: Role) => {
+    setError(null);
+    const res = await fetch(`/api/users/${user.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ role }),
+    }).catch(() => null);
+    const data = await res?.json().catch(() => null);
+    if (!res?.ok) {
+      setError(data?.error || "Failed to update user");
+      return;
+    }
+    setUsers((prev) => prev.map((u) => (u.id === user.id ? data : u)));
+  };
+
+  const handleDelete = async (user: UserRow) => {
+    if (!confirm(`Delete user "${user.username}"?`)) return;
+    setError(null);
+    const res = await fetch(`/api/users/${user.id}`, {
+      method: "DELETE",
+    }).catch(() => null);
+    const data = await res?.json().catch(() => null);
+    if (!res?.ok) {
+      setError(data?.error || "Failed to delete user");
+      return;
+    }
+    setUsers((prev) => prev.filter((u) => u.id !== user.id));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-cyan-400">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-950 p-8">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <header>
+          <h1 className="flex items-center gap-2 text-3xl font-bold text-white">
+            <Users size={28} /> Users
+          </h1>
+          <p className="text-slate-400">
+            Viewers can browse routes, editors can change them, admins also
+            manage users.
+          </p>
+        </header>
+
+        {error && (
+          <div className="p-4 bg-red-900/20 border border-red-500/50 text-red-300 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-slate-900 border border-slate-800 rounded-xl divide-y divide-slate-800">
+          {users.map((user) => (
+            <div
+              key={user.id}
+              className="flex items-center justify-between gap-4 p-4"
+            >
+              <div>
+                <p className="font-semibold text-white">
+                  {user.name || user.username}
+                </p>
+                <p className="text-sm text-slate-500 font-mono">
+                  {user.username}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={user.role}
+                  disabled={user.id === currentUser?.id}
+                  onChange={(e) =>
+                    handleRoleChange(user, e.target.value as Role)
+                  }
+                  className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 disabled:opacity-50"
+                >
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(user)}
+                  disabled={user.id === currentUser?.id}
+                  title="Delete user"
+                  className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-full disabled:opacity-30"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form
+          onSubmit={handleCreate}
+          className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-4"
+        >
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <UserPlus size={20} /> Add user
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {(["username", "name", "password"] as const).map((field) => (
+              <label key={field} className="block">
+                <span className="block text-xs font-semibold text-slate-400 mb-1 uppercase tracking-wider">
+                  {field}
+                </span>
+                <input
+                  type={field === "password" ? "password" : "text"}
+                  value={form[field]}
+                  onChange={(e) =>
+                    setForm((prev) => ({ ...prev, [field]: e.target.value }))
+                  }
+                  autoComplete={field === "password" ? "new-password" : "off"}
+                  className={inputClass}
+                />
+                {formErrors[field] && (
+                  <span className="text-red-400 text-xs mt-1 block">
+                    {formErrors[field]}
+                  </span>
+                )}
+              </label>
+            ))}
+            <label className="block">
+              <span className="block text-xs font-semibold text-slate-400 mb-1 uppercase tracking-wider">
+                role
+              </span>
+              <select
+                value={form.role}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, role: e.target.value as Role }))
+                }
+                className={inputClass}
+              >
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {role}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-lg disabled:opacity-50"
+          >
+            {saving ? "Adding..." : "Add user"}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
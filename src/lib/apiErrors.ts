@@ -0,0 +1,103 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import type { FieldError } from "./routeSchema";
+import { toETag } from "./routeVersion";
+
+// Prisma raises P2002 when a write violates a unique index (e.g. `route_id`)
+export function isUniqueConstraintError(error: unknown) {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
+}
+
+export function routeIdConflict(routeId: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `Route ID "${routeId}" already exists`,
+      code: "route_id_conflict",
+      route_id: routeId,
+    },
+    { status: 409 },
+  );
+}
+
+// The route_id belongs to a deleted route that has not been purged yet
+export function routeInTrash(routeId: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `Route ID "${routeId}" belongs to a route in the trash; restore or purge it first`,
+      code: "route_in_trash",
+      route_id: routeId,
+    },
+    { status: 409 },
+  );
+}
+
+export function groupNameConflict(name: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `Group "${name}" already exists`,
+      code: "group_name_conflict",
+    },
+    { status: 409 },
+  );
+}
+
+export function validationFailed(errors: FieldError[]) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: "Validation failed",
+      code: "validation_failed",
+      errors,
+    },
+    { status: 422 },
+  );
+}
+
+export function versionRequired() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: "If-Match header with the route version is required",
+      code: "version_required",
+    },
+    { status: 428 },
+  );
+}
+
+// `current` is the route as it is now, so the client can show what changed
+export function versionConflict(version: number, current: unknown) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: "Route has changed since it was loaded",
+      code: "version_conflict",
+      version,
+      current,
+    },
+    { status: 412, headers: { ETag: toETag(version) } },
+  );
+}
+
+export function unauthenticated() {
+  return NextResponse.json(
+    { success: false, error: "Sign in required", code: "unauthenticated" },
+    { status: 401 },
+  );
+}
+
+export function forbidden(requiredRole: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `This action requires the ${requiredRole} role`,
+      code: "forbidden",
+    },
+    { status: 403 },
+  );
+}
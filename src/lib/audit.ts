@@ -0,0 +1,84 @@
+import type { AuditAction } from "@prisma/client";
+import prisma from "./prisma";
+import { diffRoutes } from "./routeDiff";
+import { formatRoute, type RouteRecord } from "./routeFormat";
+
+export type AuditChange = {
+  path: string;
+  before: AuditValue;
+  after: AuditValue;
+};
+
+type AuditValue = string | number | boolean | null;
+
+const MAX_TEXT_LENGTH = 120;
+
+// Keeps entries small: long text is cut, lists of words are joined and
+// anything bigger is reduced to its size
+function compact(value: unknown): AuditValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  if (typeof value === "string") {
+    return value.length > MAX_TEXT_LENGTH
+      ? `${value.slice(0, MAX_TEXT_LENGTH)}…`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.every((item) => typeof item === "string")
+      ? compact(value.join(", "))
+      : `${value.length} item(s)`;
+  }
+  return "(object)";
+}
+
+// Field-level summary of a change, with stages keyed by stage number:
+// `stages[3].details.total_time_min`. Added and removed stages appear once
+// as `stages[3]` with the stage name on the side where the stage exists.
+// Pass `null` for the side that does not exist (creates and deletes).
+export function summarizeChanges(
+  before: RouteRecord | null,
+  after: RouteRecord | null,
+): AuditChange[] {
+  const diff = diffRoutes(
+    before && formatRoute(before),
+    after && formatRoute(after),
+  );
+
+  const changes: AuditChange[] = diff.route.map((change) => ({
+    path: change.path,
+    before: compact(change.before),
+    after: compact(change.after),
+  }));
+  for (const stage of diff.stages) {
+    const prefix = `stages[${stage.stage_number}]`;
+    if (stage.status !== "changed") {
+      changes.push({
+        path: prefix,
+        before: stage.status === "removed" ? stage.stage_name : null,
+        after: stage.status === "added" ? stage.stage_name : null,
+      });
+      continue;
+    }
+    for (const change of stage.changes) {
+      changes.push({
+        path: `${prefix}.${change.path}`,
+        before: compact(change.before),
+        after: compact(change.after),
+      });
+    }
+  }
+  return changes;
+}
+
+// Appends an audit entry; there is deliberately no way to edit or remove one.
+// `actor` is null for changes made by the system, such as automatic purges.
+export async function recordAudit(
+  routeId: string,
+  action: AuditAction,
+  actor: { id: string; username: string } | null,
+  changes: AuditChange[],
+) {
+  return prisma.auditEntry.create({
+    data: { routeId, action, actor, changes },
+  });
+}
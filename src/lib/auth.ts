@@ -0,0 +1,53 @@
+import type { User } from "@prisma/client";
+import { cookies } from "next/headers";
+import { forbidden, unauthenticated } from "./apiErrors";
+import prisma from "./prisma";
+import {
+  hasRole,
+  SESSION_COOKIE,
+  verifySession,
+  type Role,
+  type SessionUser,
+} from "./session";
+
+// The signed-in user, re-read from the store so removed users and role
+// changes take effect before the cookie expires
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const cookieStore = await cookies();
+  const session = await verifySession(cookieStore.get(SESSION_COOKIE)?.value);
+  if (!session) return null;
+
+  const user = await prisma.user.findUnique({ where: { id: session.id } });
+  if (!user) return null;
+  return {
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    role: user.role,
+  };
+}
+
+// For route handlers: `{ user }` when allowed, otherwise `{ error }` with
+// the 401/403 response to return
+export async function requireRole(role: Role) {
+  const user = await getSessionUser();
+  if (!user) return { error: unauthenticated() };
+  if (!hasRole(user.role, role)) return { error: forbidden(role) };
+  return { user };
+}
+
+// Shape stored with revisions and other records of who changed what
+export function toActor(user: SessionUser) {
+  return { id: user.id, username: user.username };
+}
+
+// API shape of a user; never includes the password hash
+export function formatUser(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    role: user.role,
+    created_at: user.createdAt,
+  };
+}
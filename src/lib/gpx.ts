@@ -0,0 +1,122 @@
+export type TrackPoint = {
+  lat: number;
+  lon: number;
+  ele: number | null;
+};
+
+export type GpxBounds = {
+  min_lat: number;
+  min_lon: number;
+  max_lat: number;
+  max_lon: number;
+};
+
+export class GpxParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GpxParseError";
+  }
+}
+
+const POINT_PATTERN = (tag: string) =>
+  new RegExp(`<${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${tag}>)`, "g");
+
+function readAttribute(attributes: string, name: string) {
+  const match = attributes.match(
+    new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`),
+  );
+  return match ? Number(match[1]) : NaN;
+}
+
+function readPoints(xml: string, tag: string): TrackPoint[] {
+  const points: TrackPoint[] = [];
+  for (const match of xml.matchAll(POINT_PATTERN(tag))) {
+    const lat = readAttribute(match[1], "lat");
+    const lon = readAttribute(match[1], "lon");
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+
+    const eleMatch = match[2]?.match(/<ele>\s*([^<]+?)\s*<\/ele>/);
+    const ele = eleMatch ? Number(eleMatch[1]) : NaN;
+    points.push({ lat, lon, ele: Number.isFinite(ele) ? ele : null });
+  }
+  return points;
+}
+
+// Regex-based so it runs the same on the server and in the browser.
+// Track points win; route points are used when a file has no track.
+export function parseGpx(xml: string): {
+  points: TrackPoint[];
+  bounds: GpxBounds;
+} {
+  if (!/<gpx\b/.test(xml)) {
+    throw new GpxParseError("File is not a GPX document");
+  }
+
+  let points = readPoints(xml, "trkpt");
+  if (points.length === 0) points = readPoints(xml, "rtept");
+  if (points.length === 0) {
+    throw new GpxParseError("GPX file contains no track or route points");
+  }
+
+  return { points, bounds: getBounds(points) };
+}
+
+export function getBounds(points: TrackPoint[]): GpxBounds {
+  return points.reduce(
+    (acc, p) => ({
+      min_lat: Math.min(acc.min_lat, p.lat),
+      min_lon: Math.min(acc.min_lon, p.lon),
+      max_lat: Math.max(acc.max_lat, p.lat),
+      max_lon: Math.max(acc.max_lon, p.lon),
+    }),
+    {
+      min_lat: Infinity,
+      min_lon: Infinity,
+      max_lat: -Infinity,
+      max_lon: -Infinity,
+    },
+  );
+}
+
+// Keeps every nth point (plus the last) so drawing stays cheap
+export function downsamplePoints(
+  points: TrackPoint[],
+  maxPoints: number,
+): TrackPoint[] {
+  if (points.length <= maxPoints) return points;
+  const step = Math.ceil(points.length / maxPoints);
+  return points.filter((_, i) => i % step === 0 || i === points.length - 1);
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Minimal GPX 1.1 document with one track, for tracks derived from uploads
+// (e.g. reversed) rather than uploaded themselves
+export function toGpxXml(points: TrackPoint[], name: string) {
+  const trackPoints = points
+    .map(
+      (p) =>
+        `      <trkpt lat="${p.lat}" lon="${p.lon}">${
+          p.ele === null ? "" : `<ele>${p.ele}</ele>`
+        }</trkpt>`,
+    )
+    .join("\n");
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="hiking-routes" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <trk>`,
+    `    <name>${escapeXml(name)}</name>`,
+    `    <trkseg>`,
+    trackPoints,
+    `    </trkseg>`,
+    `  </trk>`,
+    `</gpx>`,
+    "",
+  ].join("\n");
+}
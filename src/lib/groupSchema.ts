@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+export const createGroupSchema = z.object({
+  name: z.string().trim().min(1, "Group name is required"),
+  description: z.string().trim().default(""),
+  position: z
+    .number()
+    .int("Position must be a whole number")
+    .min(0, "Position cannot be negative")
+    .optional(),
+});
+
+export const updateGroupSchema = createGroupSchema.partial();
+
+export const reorderGroupsSchema = z.object({
+  ids: z.array(z.string()).min(1, "List the groups in their new order"),
+});
@@ -0,0 +1,29 @@
+// Helpers for routes handled as plain JSON in export shape: patches,
+// merges, diffs, snapshots and imports.
+
+export type JsonRecord = Record<string, unknown>;
+
+// Keys that would reach an object's prototype rather than the document
+export const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+export function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Deep equality of JSON values. Key order does not matter, and a missing
+// value equals null, since documents leave out empty optional fields.
+export function same(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => same(item, b[i]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => same(a[key], b[key]));
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+export function round(value: number, digits: number) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyJsonPatch, JsonPatchError, jsonPatchSchema } from "./jsonPatch";
+
+const document = {
+  route_name: "Camino Test",
+  stages: [
+    { stage_number: 1, stage_name: "Start" },
+    { stage_number: 2, stage_name: "End" },
+  ],
+};
+
+function patch(operations: unknown) {
+  return applyJsonPatch(document, jsonPatchSchema.parse(operations));
+}
+
+describe("JSON Patch", () => {
+  it("applies add, remove, replace, move and copy in order", () => {
+    assert.deepEqual(
+      patch([
+        { op: "replace", path: "/route_name", value: "Renamed" },
+        { op: "add", path: "/stages/-", value: { stage_number: 3 } },
+        { op: "remove", path: "/stages/0" },
+        { op: "copy", from: "/route_name", path: "/group_name" },
+        { op: "move", from: "/stages/1", path: "/stages/0" },
+      ]),
+      {
+        route_name: "Renamed",
+        group_name: "Renamed",
+        stages: [{ stage_number: 3 }, { stage_number: 2, stage_name: "End" }],
+      },
+    );
+  });
+
+  it("leaves the document untouched", () => {
+    const before = structuredClone(document);
+    patch([{ op: "replace", path: "/stages/0/stage_name", value: "New" }]);
+    assert.deepEqual(document, before);
+  });
+
+  it("flags a failed test so the caller can report a conflict", () => {
+    assert.throws(
+      () =>
+        patch([
+          { op: "test", path: "/route_name", value: "Something else" },
+          { op: "replace", path: "/route_name", value: "Renamed" },
+        ]),
+      (error) => error instanceof JsonPatchError && error.test,
+    );
+  });
+
+  it("rejects paths that do not exist", () => {
+    assert.throws(
+      () => patch([{ op: "replace", path: "/missing", value: 1 }]),
+      (error) => error instanceof JsonPatchError && !error.test,
+    );
+    assert.throws(
+      () => patch([{ op: "remove", path: "/stages/5" }]),
+      JsonPatchError,
+    );
+  });
+
+  it("rejects paths through the prototype", () => {
+    for (const path of [
+      "/__proto__/polluted",
+      "/constructor/prototype/polluted",
+      "/stages/0/__proto__/polluted",
+    ]) {
+      assert.throws(
+        () => patch([{ op: "add", path, value: true }]),
+        JsonPatchError,
+      );
+    }
+    assert.equal(({} as Record<string, unknown>).polluted, undefined);
+  });
+});
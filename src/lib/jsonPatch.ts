@@ -0,0 +1,195 @@
+import { z } from "zod";
+import { same, UNSAFE_KEYS } from "./json";
+
+// JSON Patch (RFC 6902) over plain JSON documents. Operations apply to a
+// copy in order and either all succeed or the document is left untouched.
+
+const pointer = z.string().regex(/^(\/|$)/, "Must be a JSON pointer");
+
+export const jsonPatchSchema = z.array(
+  z.discriminatedUnion("op", [
+    z.object({ op: z.literal("add"), path: pointer, value: z.unknown() }),
+    z.object({ op: z.literal("remove"), path: pointer }),
+    z.object({ op: z.literal("replace"), path: pointer, value: z.unknown() }),
+    z.object({ op: z.literal("move"), from: pointer, path: pointer }),
+    z.object({ op: z.literal("copy"), from: pointer, path: pointer }),
+    z.object({ op: z.literal("test"), path: pointer, value: z.unknown() }),
+  ]),
+);
+
+export type JsonPatch = z.infer<typeof jsonPatchSchema>;
+
+// `test` marks a failed `test` operation, i.e. the document was not in the
+// state the patch expected
+export class JsonPatchError extends Error {
+  constructor(
+    message: string,
+    readonly test = false,
+  ) {
+    super(message);
+    this.name = "JsonPatchError";
+  }
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+function parsePointer(path: string) {
+  if (path === "") return [];
+  const tokens = path
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+  const unsafe = tokens.find((token) => UNSAFE_KEYS.has(token));
+  if (unsafe !== undefined) {
+    throw new JsonPatchError(`"${path}": "${unsafe}" is not allowed`);
+  }
+  return tokens;
+}
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === "object" && value !== null;
+}
+
+function arrayIndex(token: string, path: string) {
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new JsonPatchError(`"${path}": "${token}" is not an array index`);
+  }
+  return Number(token);
+}
+
+// The container holding the last token of `path`, and that token
+function locate(document: unknown, path: string) {
+  const tokens = parsePointer(path);
+  const key = tokens.pop()!;
+  let parent: unknown = document;
+  for (const token of tokens) {
+    const next = Array.isArray(parent)
+      ? parent[arrayIndex(token, path)]
+      : isContainer(parent) && Object.hasOwn(parent, token)
+        ? (parent as Record<string, unknown>)[token]
+        : undefined;
+    if (!isContainer(next)) {
+      throw new JsonPatchError(`"${path}" does not exist`);
+    }
+    parent = next;
+  }
+  return { parent: parent as Container, key };
+}
+
+function getValue(document: unknown, path: string) {
+  if (path === "") return document;
+  const { parent, key } = locate(document, path);
+  if (Array.isArray(parent)) {
+    const index = arrayIndex(key, path);
+    if (index >= parent.length) {
+      throw new JsonPatchError(`"${path}" does not exist`);
+    }
+    return parent[index];
+  }
+  if (!Object.hasOwn(parent, key)) {
+    throw new JsonPatchError(`"${path}" does not exist`);
+  }
+  return parent[key];
+}
+
+function addValue(document: unknown, path: string, value: unknown) {
+  if (path === "") return value;
+  const { parent, key } = locate(document, path);
+  if (Array.isArray(parent)) {
+    const index = key === "-" ? parent.length : arrayIndex(key, path);
+    if (index > parent.length) {
+      throw new JsonPatchError(`"${path}" is past the end of the array`);
+    }
+    parent.splice(index, 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return document;
+}
+
+function removeValue(document: unknown, path: string) {
+  if (path === "") {
+    throw new JsonPatchError("Cannot remove the whole document");
+  }
+  getValue(document, path);
+  const { parent, key } = locate(document, path);
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete parent[key];
+  }
+  return document;
+}
+
+// `path` must exist
+function replaceValue(document: unknown, path: string, value: unknown) {
+  if (path === "") return value;
+  const { parent, key } = locate(document, path);
+  if (Array.isArray(parent)) {
+    parent[Number(key)] = value;
+  } else {
+    parent[key] = value;
+  }
+  return document;
+}
+
+export function applyJsonPatch(document: unknown, patch: JsonPatch) {
+  let result = structuredClone(document);
+  patch.forEach((operation, i) => {
+    try {
+      switch (operation.op) {
+        case "add":
+          result = addValue(
+            result,
+            operation.path,
+            structuredClone(operation.value),
+          );
+          break;
+        case "remove":
+          result = removeValue(result, operation.path);
+          break;
+        case "replace":
+          getValue(result, operation.path);
+          result = replaceValue(
+            result,
+            operation.path,
+            structuredClone(operation.value),
+          );
+          break;
+        case "move": {
+          if (operation.path.startsWith(`${operation.from}/`)) {
+            throw new JsonPatchError(
+              `cannot move "${operation.from}" into itself`,
+            );
+          }
+          const value = getValue(result, operation.from);
+          result = removeValue(result, operation.from);
+          result = addValue(result, operation.path, value);
+          break;
+        }
+        case "copy":
+          result = addValue(
+            result,
+            operation.path,
+            structuredClone(getValue(result, operation.from)),
+          );
+          break;
+        case "test":
+          if (!same(getValue(result, operation.path), operation.value)) {
+            throw new JsonPatchError(
+              `"${operation.path}" does not have the expected value`,
+              true,
+            );
+          }
+          break;
+      }
+    } catch (error) {
+      if (!(error instanceof JsonPatchError)) throw error;
+      throw new JsonPatchError(
+        `Operation ${i} (${operation.op}): ${error.message}`,
+        error.test,
+      );
+    }
+  });
+  return result;
+}
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyMergePatch } from "./mergePatch";
+
+describe("JSON merge patch", () => {
+  const target = {
+    route_name: "Camino Test",
+    details: { total_time: "5h30", highlights: ["Roman bridge"] },
+  };
+
+  it("merges objects, removes null keys and replaces arrays", () => {
+    assert.deepEqual(
+      applyMergePatch(target, {
+        route_name: "Renamed",
+        details: { total_time: null, highlights: [] },
+      }),
+      { route_name: "Renamed", details: { highlights: [] } },
+    );
+  });
+
+  it("replaces the target with a patch that is not an object", () => {
+    assert.deepEqual(applyMergePatch(target, ["a"]), ["a"]);
+  });
+
+  it("leaves the target untouched", () => {
+    const before = structuredClone(target);
+    applyMergePatch(target, { details: { total_time: "6h" } });
+    assert.deepEqual(target, before);
+  });
+
+  it("ignores keys that would reach the prototype", () => {
+    // JSON.parse, like a request body, makes "__proto__" an own key
+    const patch = JSON.parse(
+      '{"__proto__": {"polluted": true}, "constructor": {"prototype": {"polluted": true}}, "details": {"__proto__": {"polluted": true}}}',
+    );
+    const result = applyMergePatch(target, patch) as typeof target;
+    assert.deepEqual(result, target);
+    assert.equal(Object.getPrototypeOf(result.details), Object.prototype);
+    assert.equal(({} as Record<string, unknown>).polluted, undefined);
+  });
+});
@@ -0,0 +1,22 @@
+// JSON merge patch (RFC 7396): objects are merged key by key, `null`
+// removes a key and anything else, arrays included, replaces the value.
+// Keys that would reach the prototype are ignored.
+
+import { isRecord, UNSAFE_KEYS } from "./json";
+
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isRecord(patch)) return patch;
+  const result: Record<string, unknown> = isRecord(target) ? { ...target } : {};
+  Object.entries(patch).forEach(([key, value]) => {
+    if (UNSAFE_KEYS.has(key)) return;
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(
+        Object.hasOwn(result, key) ? result[key] : undefined,
+        value,
+      );
+    }
+  });
+  return result;
+}
@@ -0,0 +1,72 @@
+import type { Prisma, RevisionAction } from "@prisma/client";
+import { requireRole } from "./auth";
+import prisma from "./prisma";
+import { formatRoute, type RouteRecord } from "./routeFormat";
+
+// Appends the next numbered snapshot for the route
+export async function recordRevision(
+  route: RouteRecord,
+  action: RevisionAction,
+  actor: { id: string; username: string },
+) {
+  return prisma.routeRevision.create({
+    data: {
+      routeId: route.routeId,
+      revision: (await latestRevision(route.routeId)) + 1,
+      action,
+      snapshot: formatRoute(route) as unknown as Prisma.InputJsonValue,
+      actor,
+    },
+  });
+}
+
+// Viewers see the history of live routes; that of routes in the trash, or
+// purged, is for editors only, like the trash itself. Also returns the
+// current route, if any.
+export async function requireHistoryAccess(routeId: string) {
+  const route = await prisma.route.findUnique({
+    where: { routeId },
+    select: { version: true, deletedAt: true },
+  });
+  const auth = await requireRole(
+    route && !route.deletedAt ? "viewer" : "editor",
+  );
+  if (auth.error) return { error: auth.error };
+  return { user: auth.user, route };
+}
+
+async function latestRevision(routeId: string) {
+  const latest = await prisma.routeRevision.findFirst({
+    where: { routeId },
+    orderBy: { revision: "desc" },
+    select: { revision: true },
+  });
+  return latest?.revision ?? 0;
+}
+
+// Keeps the history attached when a route's `route_id` changes. The new id
+// may already have history from a deleted route, in which case the moved
+// revisions are numbered after it.
+export async function renameRevisions(fromRouteId: string, toRouteId: string) {
+  if (fromRouteId === toRouteId) return;
+
+  const offset = await latestRevision(toRouteId);
+  if (offset === 0) {
+    await prisma.routeRevision.updateMany({
+      where: { routeId: fromRouteId },
+      data: { routeId: toRouteId },
+    });
+    return;
+  }
+
+  const moved = await prisma.routeRevision.findMany({
+    where: { routeId: fromRouteId },
+    select: { id: true, revision: true },
+  });
+  for (const { id, revision } of moved) {
+    await prisma.routeRevision.update({
+      where: { id },
+      data: { routeId: toRouteId, revision: revision + offset },
+    });
+  }
+}
@@ -0,0 +1,121 @@
+import { isRecord, same } from "./json";
+import { MEASURE_FIELDS } from "./stageMeasures";
+
+// Compares two routes in their export shape, stage by stage
+
+export type ValueChange = {
+  // dotted path relative to the route or stage, e.g. `details.total_time_min`
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type StageDiff = {
+  stage_number: number;
+  stage_name: string;
+  status: "added" | "removed" | "changed";
+  changes: ValueChange[];
+};
+
+export type RouteDiff = {
+  route: ValueChange[];
+  stages: StageDiff[];
+};
+
+type ExportedStage = Record<string, unknown> & {
+  stage_number: number;
+  stage_name?: string;
+};
+
+type ExportedRoute = Record<string, unknown> & {
+  stages?: ExportedStage[];
+};
+
+// Display strings derived from the typed measurements would only repeat
+// their changes
+const DERIVED_PATHS = new Set<string>(
+  MEASURE_FIELDS.map((field) => `details.${field.display}`),
+);
+
+// Compared as a whole: lists of plain values and computed data
+const LEAF_PATHS = new Set(["avg_daily_distance", "profile"]);
+
+function isObjectList(value: unknown): value is unknown[] {
+  return Array.isArray(value) && value.some(isRecord);
+}
+
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: ValueChange[],
+) {
+  if (DERIVED_PATHS.has(path) || same(before, after)) return;
+
+  if (!LEAF_PATHS.has(path)) {
+    if (isRecord(before) && isRecord(after)) {
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+      keys.forEach((key) =>
+        diffValues(
+          before[key],
+          after[key],
+          path ? `${path}.${key}` : key,
+          changes,
+        ),
+      );
+      return;
+    }
+    if (isObjectList(before) || isObjectList(after)) {
+      const a = Array.isArray(before) ? before : [];
+      const b = Array.isArray(after) ? after : [];
+      for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        diffValues(a[i], b[i], `${path}[${i}]`, changes);
+      }
+      return;
+    }
+  }
+
+  changes.push({ path, before: before ?? null, after: after ?? null });
+}
+
+export function diffRoutes(
+  before: ExportedRoute | null,
+  after: ExportedRoute | null,
+): RouteDiff {
+  const { stages: beforeStages = [], ...beforeRoute } = before ?? {};
+  const { stages: afterStages = [], ...afterRoute } = after ?? {};
+
+  const route: ValueChange[] = [];
+  diffValues(beforeRoute, afterRoute, "", route);
+
+  const byNumber = (stages: ExportedStage[]) =>
+    new Map(stages.map((s) => [s.stage_number, s]));
+  const beforeByNumber = byNumber(beforeStages);
+  const afterByNumber = byNumber(afterStages);
+  const numbers = [
+    ...new Set([...beforeByNumber.keys(), ...afterByNumber.keys()]),
+  ].sort((a, b) => a - b);
+
+  const stages = numbers.flatMap((stageNumber): StageDiff[] => {
+    const a = beforeByNumber.get(stageNumber);
+    const b = afterByNumber.get(stageNumber);
+    const changes: ValueChange[] = [];
+    diffValues(a, b, "", changes);
+    if (changes.length === 0) return [];
+    return [
+      {
+        stage_number: stageNumber,
+        stage_name: b?.stage_name ?? a?.stage_name ?? "",
+        status: !a ? "added" : !b ? "removed" : "changed",
+        // whole-stage additions and removals are summarised by their status
+        changes: a && b ? changes : [],
+      },
+    ];
+  });
+
+  return { route, stages };
+}
+
+export function isEmptyDiff(diff: RouteDiff) {
+  return diff.route.length === 0 && diff.stages.length === 0;
+}
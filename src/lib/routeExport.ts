@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { isRecord, type JsonRecord } from "./json";
+import { routeExportSchema } from "./routeSchema";
+
+// Version of the `{ routes: [...] }` export read by the mobile app. Bump it
+// for changes that would break existing readers, publish the new schema
+// next to the old one and add an upgrade below so files in the older shape
+// can still be imported.
+export const ROUTE_SCHEMA_VERSION = 1;
+
+export const routeExportDocumentSchema = z.object({
+  schema_version: z.literal(ROUTE_SCHEMA_VERSION),
+  routes: z.array(routeExportSchema),
+  // paged lists only
+  next_cursor: z.string().nullish(),
+});
+
+// JSON Schema of the export, served at /api/schema/route/v1
+export function routeExportJsonSchema(id: string) {
+  return {
+    ...z.toJSONSchema(routeExportDocumentSchema, { io: "output" }),
+    $id: id,
+    title: `Hiking routes export, version ${ROUTE_SCHEMA_VERSION}`,
+  };
+}
+
+// The earliest routes kept `avg_daily_distance` on each stage (see
+// previous_prisma.txt); it now belongs to the route. Routes already in the
+// current shape are returned as they are. Also used on stored documents by
+// scripts/migrate-avg-daily-distance.ts, whose field names match.
+export function liftStageAvgDailyDistance(route: JsonRecord): JsonRecord {
+  if (!Array.isArray(route.stages)) return route;
+  const lifted: unknown[] = [];
+  const seen = new Set<string>();
+  let found = false;
+  const stages = route.stages.map((stage) => {
+    if (!isRecord(stage) || !("avg_daily_distance" in stage)) return stage;
+    found = true;
+    const { avg_daily_distance: items, ...rest } = stage;
+    // stages usually repeat the route's figures; keep each once
+    (Array.isArray(items) ? items : []).forEach((item) => {
+      const key = JSON.stringify(item);
+      if (seen.has(key)) return;
+      seen.add(key);
+      lifted.push(item);
+    });
+    return rest;
+  });
+  if (!found) return route;
+
+  const current = Array.isArray(route.avg_daily_distance)
+    ? route.avg_daily_distance
+    : [];
+  return {
+    ...route,
+    avg_daily_distance: current.length > 0 ? current : lifted,
+    stages,
+  };
+}
+
+// Upgrades a route from each version to the next. Exports made before
+// versioning count as version 0.
+const UPGRADES: Record<number, (route: JsonRecord) => JsonRecord> = {
+  0: liftStageAvgDailyDistance,
+};
+
+// Brings the routes of an export at `schemaVersion` (missing in exports
+// made before versioning) up to the current shape, ready for validation
+export function upgradeRoutes(
+  routes: unknown[],
+  schemaVersion: unknown,
+): { routes: unknown[] } | { error: string } {
+  const from = schemaVersion ?? 0;
+  if (
+    typeof from !== "number" ||
+    !Number.isInteger(from) ||
+    from < 0 ||
+    from > ROUTE_SCHEMA_VERSION
+  ) {
+    return {
+      error: `Unsupported schema_version ${JSON.stringify(schemaVersion)}; versions up to ${ROUTE_SCHEMA_VERSION} can be imported`,
+    };
+  }
+
+  let upgraded = routes;
+  for (let version = from; version < ROUTE_SCHEMA_VERSION; version++) {
+    upgraded = upgraded.map((route) =>
+      isRecord(route) ? UPGRADES[version](route) : route,
+    );
+  }
+  return { routes: upgraded };
+}
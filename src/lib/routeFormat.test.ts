@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatRoute, toRouteData, type RouteRecord } from "./routeFormat";
+import { routePayloadSchema } from "./routeSchema";
+
+// Import as the API does: validate, convert, then read back as stored.
+// The JSON round trip stands in for the database, which keeps plain data.
+function importRoute(payload: unknown): RouteRecord {
+  const data = toRouteData(routePayloadSchema.parse(payload));
+  return {
+    id: "000000000000000000000001",
+    version: 1,
+    deletedAt: null,
+    deletedBy: null,
+    variantBase: null,
+    variantBaseVersion: null,
+    ...JSON.parse(JSON.stringify(data)),
+  } as RouteRecord;
+}
+
+function exportRoute(payload: unknown) {
+  return formatRoute(importRoute(payload));
+}
+
+const route = {
+  route_id: "camino-test",
+  group_name: "Caminos",
+  route_name: "Camino Test",
+  avg_daily_distance: [
+    {
+      label: "Relaxed",
+      minimum_km: 15,
+      minimum_mile: 9.3,
+      maximum_km: 20,
+      maximum_mile: 12.4,
+      days: 12,
+    },
+  ],
+  starting_point: [
+    {
+      name: "Town square",
+      avg_distance: "12 km",
+      avg_daily: "4h",
+      stage_number: 1,
+      accommodations: [{ name: "Albergue", lat: 42.1, long: -8.2 }],
+    },
+  ],
+  variant_of: null,
+  variant_type: null,
+  stages: [
+    {
+      stage_number: 1,
+      stage_name: "Start to Middle",
+      distance_km: 22.4,
+      distance_miles: 13.9,
+      gpx: "stage-1.gpx",
+      profile: {
+        points: [
+          [0, 120],
+          [11.2, 480],
+          [22.4, 210],
+        ],
+        min_elevation_m: 120,
+        max_elevation_m: 480,
+        steepest_segments: [{ start_km: 2, end_km: 3, grade_percent: 11.5 }],
+      },
+      details: {
+        total_distance_m: 22400,
+        total_time_min: 330,
+        accumulated_ascent_m: 540,
+        accumulated_descent_m: 450,
+        total_distance: "22.4 km",
+        total_time: "5h30",
+        accumulated_ascent: "540 m",
+        accumulated_descent: "450 m",
+        walking_surface: ["asphalt", "trail"],
+        elevation_profile: "Rolling",
+        challenges: ["Steep descent"],
+        highlights: ["Roman bridge"],
+      },
+      facilities: [
+        { index: 1, name: "Cafe", distance: "5 km", services: ["Food_Drink"] },
+      ],
+      accommodations: [
+        {
+          name: "Hostal Central",
+          price_category: "$$",
+          contact_url: "https://example.com",
+          contact_phone: null,
+          lat: 42.3,
+          long: -8.1,
+        },
+      ],
+    },
+    {
+      stage_number: 2,
+      stage_name: "Middle to End",
+      distance_km: 18,
+      distance_miles: 11.2,
+      gpx: "",
+      profile: null,
+      details: {
+        total_distance_m: null,
+        total_time_min: null,
+        accumulated_ascent_m: null,
+        accumulated_descent_m: null,
+        total_distance: "",
+        total_time: "",
+        accumulated_ascent: "",
+        accumulated_descent: "",
+        walking_surface: [],
+        elevation_profile: "",
+        challenges: [],
+        highlights: [],
+      },
+      facilities: [],
+      accommodations: [],
+    },
+  ],
+};
+
+describe("route codec", () => {
+  it("imports an export unchanged", () => {
+    assert.deepEqual(exportRoute(route), route);
+  });
+
+  it("round-trips export -> import -> export losslessly", () => {
+    const exported = exportRoute(route);
+    assert.deepEqual(exportRoute(exported), exported);
+  });
+
+  it("round-trips older exports once they are normalized", () => {
+    const legacy = {
+      route_id: "legacy",
+      route_name: "Legacy",
+      avg_daily_distance: [{ avg_daily_distance_1: "Fast", days: 8 }],
+      stages: [
+        {
+          stage_number: 1,
+          stage_name: "Only stage",
+          distance_km: "12.5",
+          distance_miles: "7.8",
+          details: {
+            total_distance: "12,5 km",
+            total_time: "3:45",
+            accumulated_ascent: "1,100 m",
+            accumulated_descent: "300",
+            walking_surface: [],
+            elevation_profile: "",
+            challenges: [],
+            highlights: [],
+          },
+          facilities: [{ index: "1", services: [] }],
+          accommodations: [],
+        },
+      ],
+    };
+
+    const exported = exportRoute(legacy);
+    assert.equal(exported.avg_daily_distance[0].label, "Fast");
+    assert.deepEqual(exported.stages[0].details, {
+      ...legacy.stages[0].details,
+      total_distance_m: 12500,
+      total_time_min: 225,
+      accumulated_ascent_m: 1100,
+      accumulated_descent_m: 300,
+      total_distance: "12.5 km",
+      total_time: "3h45",
+      accumulated_ascent: "1100 m",
+      accumulated_descent: "300 m",
+    });
+    assert.deepEqual(exportRoute(exported), exported);
+  });
+});
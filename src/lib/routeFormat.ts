@@ -0,0 +1,127 @@
+import type { Prisma } from "@prisma/client";
+import type { RoutePayload } from "./routeSchema";
+import { fromStoredDetails, toStoredDetails } from "./stageMeasures";
+import { fromStoredProfile, toStoredProfile } from "./trackStats";
+
+// Conversion between the snake_case export shape (API bodies, exports and
+// imports) and Prisma's camelCase records. Every handler goes through here,
+// so an exported route imports back unchanged (see routeFormat.test.ts).
+
+export type RouteRecord = Prisma.RouteGetPayload<Prisma.RouteDefaultArgs>;
+
+function normalizeAvgDailyDistance(
+  items: unknown,
+): Array<Record<string, unknown>> {
+  if (!Array.isArray(items)) {
+    return [];
+  }
+
+  return items.map((item) => {
+    const record = item as Record<string, unknown>;
+    const directLabel = typeof record.label === "string" ? record.label : null;
+    const rangeValue =
+      typeof record.range_value === "string" ? record.range_value : null;
+    const dynamicKey = Object.keys(record).find((key) =>
+      key.startsWith("avg_daily_distance_"),
+    );
+    const dynamicLabel =
+      dynamicKey && typeof record[dynamicKey] === "string"
+        ? (record[dynamicKey] as string)
+        : null;
+
+    return {
+      label: directLabel || rangeValue || dynamicLabel || "",
+      minimum_km: record.minimum_km,
+      minimum_mile: record.minimum_mile,
+      maximum_km: record.maximum_km,
+      maximum_mile: record.maximum_mile,
+      days: record.days,
+    } as Record<string, unknown>;
+  });
+}
+
+export type StageRecord = RouteRecord["stages"][number];
+export type StagePayload = RoutePayload["stages"][number];
+
+// Snake_case export shape of a stored stage
+export function formatStage(stage: StageRecord) {
+  return {
+    stage_number: stage.stageNumber,
+    stage_name: stage.stageName,
+    distance_km: stage.distanceKm,
+    distance_miles: stage.distanceMiles,
+    gpx: stage.gpx,
+    profile: fromStoredProfile(stage.profile),
+    details: fromStoredDetails(stage.details),
+    facilities: stage.facilities.map((f) => ({
+      index: f.index,
+      name: f.name,
+      distance: f.distance,
+      services: f.services,
+    })),
+    accommodations: stage.accommodations.map((a) => ({
+      name: a.name,
+      price_category: a.priceCategory,
+      contact_url: a.contactUrl,
+      contact_phone: a.contactPhone,
+      lat: a.lat,
+      long: a.long,
+    })),
+  };
+}
+
+// Snake_case export shape of a stored route
+export function formatRoute(route: RouteRecord) {
+  return {
+    route_id: route.routeId,
+    group_name: route.groupName,
+    route_name: route.routeName,
+    avg_daily_distance: normalizeAvgDailyDistance(route.avgDailyDistance),
+    starting_point: route.startingPoint || [],
+    variant_of: route.variantOf ?? null,
+    variant_type: route.variantType ?? null,
+    stages: route.stages.map(formatStage),
+  };
+}
+
+// Prisma data for a validated stage
+export function toStageData(stage: StagePayload) {
+  return {
+    stageNumber: stage.stage_number,
+    stageName: stage.stage_name,
+    distanceKm: stage.distance_km,
+    distanceMiles: stage.distance_miles,
+    gpx: stage.gpx ?? "",
+    profile: toStoredProfile(stage.profile),
+    details: toStoredDetails(stage.details),
+    facilities: stage.facilities.map((f) => ({
+      index: f.index,
+      name: f.name ?? "",
+      distance: f.distance ?? "",
+      services: f.services,
+    })),
+    accommodations: stage.accommodations.map((a) => ({
+      name: a.name,
+      priceCategory: a.price_category,
+      contactUrl: a.contact_url ?? null,
+      contactPhone: a.contact_phone ?? null,
+      lat: a.lat ?? null,
+      long: a.long ?? null,
+    })),
+  } as unknown as Prisma.StageCreateInput;
+}
+
+// Prisma create/update data for a validated payload
+export function toRouteData(route: RoutePayload) {
+  return {
+    routeId: route.route_id,
+    routeName: route.route_name,
+    groupName: route.group_name,
+    avgDailyDistance:
+      route.avg_daily_distance as unknown as Prisma.InputJsonValue[],
+    startingPoint: route.starting_point as unknown as Prisma.InputJsonValue[],
+    variantOf: route.variant_of ?? null,
+    variantType: route.variant_type ?? null,
+    stages: route.stages.map(toStageData),
+  };
+}
@@ -0,0 +1,74 @@
+import type { RouteGroup } from "@prisma/client";
+import { recordAudit } from "./audit";
+import prisma from "./prisma";
+import { recordRevision } from "./revisions";
+import type { RouteRecord } from "./routeFormat";
+import type { FieldError } from "./routeSchema";
+import { updateAtVersion } from "./routeVersion";
+
+// API shape of a group
+export function formatGroup(group: RouteGroup, routeCount: number) {
+  return {
+    id: group.id,
+    name: group.name,
+    description: group.description,
+    position: group.position,
+    route_count: routeCount,
+  };
+}
+
+// Groups in display order
+export async function listGroups() {
+  return prisma.routeGroup.findMany({
+    orderBy: [{ position: "asc" }, { name: "asc" }],
+  });
+}
+
+// New groups go last
+export async function nextGroupPosition() {
+  const last = await prisma.routeGroup.findFirst({
+    orderBy: { position: "desc" },
+    select: { position: true },
+  });
+  return last ? last.position + 1 : 0;
+}
+
+// Rejects a `group_name` that is not an existing group; empty means none
+export async function unknownGroupErrors(
+  groupName: string,
+): Promise<FieldError[] | null> {
+  if (!groupName) return null;
+  const group = await prisma.routeGroup.findUnique({
+    where: { name: groupName },
+    select: { id: true },
+  });
+  return group
+    ? null
+    : [{ path: "group_name", message: `Unknown group "${groupName}"` }];
+}
+
+// Moves every route filed under `from` to `to`, as a normal edit of each
+// route, so versions, history and the audit log stay complete
+export async function renameGroupOnRoutes(
+  from: string,
+  to: string,
+  actor: { id: string; username: string },
+) {
+  const routes = await prisma.route.findMany({ where: { groupName: from } });
+  for (const found of routes) {
+    // conditional on the version; a route saved meanwhile is read again
+    let route: RouteRecord | null = found;
+    while (route?.groupName === from) {
+      const result = await updateAtVersion(route, { groupName: to });
+      if (result.saved && result.route) {
+        await recordRevision(result.route, "update", actor);
+        await recordAudit(result.route.routeId, "updated", actor, [
+          { path: "group_name", before: from, after: to },
+        ]);
+        break;
+      }
+      route = result.route;
+    }
+  }
+  return routes.length;
+}
@@ -0,0 +1,134 @@
+import { isRecord, same, type JsonRecord } from "./json";
+
+// Three-way merge of routes in export shape. `base` is the route both sides
+// started from, `mine` and `theirs` the two edited versions. Objects are
+// merged key by key and stages are matched by stage_number, so a change to
+// one stage detail does not clash with a change to another. Other arrays
+// (highlights, facilities, ...) are merged as a whole. When both sides
+// changed the same value, `mine` wins and the clash is reported.
+//
+// Used after a version conflict in the editor (`mine` the local edits,
+// `theirs` the route as saved now) and to bring parent changes into a
+// variant (see variantSync.ts). Paths are keyed by stage number like the
+// audit log, e.g. `stages[3].details.highlights`.
+
+export type MergeResult<T> = {
+  merged: T;
+  // where `mine` differs from `base`
+  changed: string[];
+  // changes from `theirs` the merge takes
+  taken: string[];
+  // changed on both sides; `mine` is kept
+  conflicts: string[];
+};
+
+type Changes = Omit<MergeResult<unknown>, "merged">;
+
+export function stagesByNumber(stages: unknown) {
+  const byNumber: Record<number, JsonRecord> = {};
+  if (Array.isArray(stages)) {
+    stages.forEach((stage) => {
+      if (isRecord(stage) && typeof stage.stage_number === "number") {
+        byNumber[stage.stage_number] = stage;
+      }
+    });
+  }
+  return byNumber;
+}
+
+function mergeValue(
+  base: unknown,
+  mine: unknown,
+  theirs: unknown,
+  path: string,
+  changes: Changes,
+): unknown {
+  // including the same change made on both sides
+  if (same(mine, theirs)) return mine;
+
+  if (isRecord(base) && isRecord(mine) && isRecord(theirs)) {
+    return mergeRecords(base, mine, theirs, path, changes);
+  }
+
+  const mineChanged = !same(mine, base);
+  const theirsChanged = !same(theirs, base);
+  if (!theirsChanged) {
+    if (mineChanged) changes.changed.push(path);
+    return mine;
+  }
+  if (!mineChanged) {
+    changes.taken.push(path);
+    return theirs;
+  }
+  changes.changed.push(path);
+  changes.conflicts.push(path);
+  return mine;
+}
+
+function mergeRecords(
+  base: JsonRecord,
+  mine: JsonRecord,
+  theirs: JsonRecord,
+  path: string,
+  changes: Changes,
+) {
+  const merged: JsonRecord = {};
+  const keys = new Set([
+    ...Object.keys(base),
+    ...Object.keys(mine),
+    ...Object.keys(theirs),
+  ]);
+  keys.forEach((key) => {
+    const value =
+      !path && key === "stages"
+        ? mergeStages(base.stages, mine.stages, theirs.stages, changes)
+        : mergeValue(
+            base[key],
+            mine[key],
+            theirs[key],
+            path ? `${path}.${key}` : key,
+            changes,
+          );
+    if (value !== undefined) merged[key] = value;
+  });
+  return merged;
+}
+
+function mergeStages(
+  base: unknown,
+  mine: unknown,
+  theirs: unknown,
+  changes: Changes,
+) {
+  const baseStages = stagesByNumber(base);
+  const myStages = stagesByNumber(mine);
+  const theirStages = stagesByNumber(theirs);
+  const numbers = [
+    ...new Set(
+      [baseStages, myStages, theirStages].flatMap((stages) =>
+        Object.keys(stages).map(Number),
+      ),
+    ),
+  ].sort((a, b) => a - b);
+
+  return numbers.flatMap((n) => {
+    const stage = mergeValue(
+      baseStages[n],
+      myStages[n],
+      theirStages[n],
+      `stages[${n}]`,
+      changes,
+    );
+    return stage === undefined ? [] : [stage];
+  });
+}
+
+export function mergeRoutes<T extends JsonRecord>(
+  base: T,
+  mine: T,
+  theirs: T,
+): MergeResult<T> {
+  const changes: Changes = { changed: [], taken: [], conflicts: [] };
+  const merged = mergeRecords(base, mine, theirs, "", changes);
+  return { merged: merged as T, ...changes };
+}
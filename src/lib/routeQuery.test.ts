@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  pageRoutes,
+  parseRouteListQuery,
+  type RouteListQuery,
+  type RouteSortFields,
+} from "./routeQuery";
+
+function route(routeId: string, name: string, distances: number[]) {
+  return {
+    id: `db-${routeId}`,
+    routeId,
+    routeName: name,
+    stages: distances.map((distanceKm) => ({ distanceKm })),
+  };
+}
+
+const routes: RouteSortFields[] = [
+  route("c", "Charlie", [10, 12]),
+  route("a", "alpha", [20]),
+  route("b", "Bravo", [5, 5, 5]),
+  route("d", "Delta", [30, 20]),
+];
+
+function query(params: string): RouteListQuery {
+  const parsed = parseRouteListQuery(new URLSearchParams(params));
+  assert.ok("query" in parsed);
+  return parsed.query;
+}
+
+// Follows next_cursor to the end, one page per entry
+function allPages(params: string) {
+  const pages: string[][] = [];
+  let cursor = "";
+  do {
+    const page = pageRoutes(
+      routes,
+      query(cursor ? `${params}&cursor=${cursor}` : params),
+    );
+    pages.push(page.ids);
+    cursor = page.nextCursor ?? "";
+  } while (cursor);
+  return pages;
+}
+
+describe("pageRoutes", () => {
+  it("orders by route_id unless asked otherwise", () => {
+    assert.deepEqual(pageRoutes(routes, query("")), {
+      ids: ["db-a", "db-b", "db-c", "db-d"],
+      nextCursor: null,
+    });
+  });
+
+  it("sorts names case-insensitively and in either order", () => {
+    assert.deepEqual(pageRoutes(routes, query("sort=name&order=desc")).ids, [
+      "db-d",
+      "db-c",
+      "db-b",
+      "db-a",
+    ]);
+  });
+
+  it("filters on stage count and total distance", () => {
+    assert.deepEqual(
+      pageRoutes(routes, query("min_stages=2&max_distance=22")).ids,
+      ["db-b", "db-c"],
+    );
+  });
+
+  it("pages through every match once, ties broken by route_id", () => {
+    assert.deepEqual(allPages("sort=total_distance&limit=2"), [
+      ["db-b", "db-a"],
+      ["db-c", "db-d"],
+    ]);
+    assert.deepEqual(allPages("sort=stage_count&order=desc&limit=3"), [
+      ["db-b", "db-d", "db-c"],
+      ["db-a"],
+    ]);
+  });
+
+  it("rejects a cursor it did not issue", () => {
+    assert.deepEqual(
+      parseRouteListQuery(new URLSearchParams("cursor=not-a-cursor")),
+      { error: "Invalid cursor" },
+    );
+  });
+});
@@ -0,0 +1,258 @@
+import type { Prisma } from "@prisma/client";
+import { VARIANT_TYPES, type VariantType } from "./routeSchema";
+
+// Query parameters of `GET /api/route`:
+//
+//   group_name   exact group
+//   q            case-insensitive text in route_name or route_id
+//   variant      regular (not a variant), variant (any variant) or a
+//                variant type, e.g. spiritual
+//   min_stages, max_stages
+//                stage count range, inclusive
+//   min_distance, max_distance
+//                total distance range in km, inclusive
+//   sort         name | stage_count | total_distance (default: route_id)
+//   order        asc | desc
+//   view         summary, to leave out stage bodies
+//   limit        page size; without it every match is returned
+//   cursor       `next_cursor` of the previous page
+//
+// Stage count and total distance are not stored, so matches are ranked on a
+// small projection first and only the requested page is loaded in full.
+
+export const ROUTE_SORTS = ["name", "stage_count", "total_distance"] as const;
+export type RouteSort = (typeof ROUTE_SORTS)[number];
+
+const MAX_LIMIT = 200;
+
+export const ROUTE_VARIANTS = ["regular", "variant", ...VARIANT_TYPES] as const;
+export type RouteVariant = (typeof ROUTE_VARIANTS)[number];
+
+type Range = { min: number | null; max: number | null };
+
+export type RouteListQuery = {
+  groupName: string | null;
+  text: string | null;
+  variant: RouteVariant | null;
+  stageCount: Range;
+  distanceKm: Range;
+  sort: RouteSort | null;
+  order: "asc" | "desc";
+  summary: boolean;
+  limit: number | null;
+  cursor: RouteCursor | null;
+};
+
+// Position after the last route of a page: its sort key and route_id, so
+// pages stay stable when routes before the cursor are added or removed
+type RouteCursor = { key: string | number; route_id: string };
+
+// What ranking needs of each route
+export type RouteSortFields = {
+  id: string;
+  routeId: string;
+  routeName: string;
+  stages: Array<{ distanceKm: number }>;
+};
+
+function parseRange(
+  searchParams: URLSearchParams,
+  name: string,
+  integer: boolean,
+): Range | string {
+  const range: Range = { min: null, max: null };
+  for (const bound of ["min", "max"] as const) {
+    const param = searchParams.get(`${bound}_${name}`);
+    if (param === null || param.trim() === "") continue;
+    const value = Number(param);
+    if (
+      !Number.isFinite(value) ||
+      value < 0 ||
+      (integer && !Number.isInteger(value))
+    ) {
+      return `${bound}_${name} must be a non-negative ${integer ? "integer" : "number"}`;
+    }
+    range[bound] = value;
+  }
+  if (range.min !== null && range.max !== null && range.min > range.max) {
+    return `min_${name} must not be greater than max_${name}`;
+  }
+  return range;
+}
+
+function inRange(value: number, range: Range) {
+  return (
+    (range.min === null || value >= range.min) &&
+    (range.max === null || value <= range.max)
+  );
+}
+
+export function parseRouteListQuery(
+  searchParams: URLSearchParams,
+): { query: RouteListQuery } | { error: string } {
+  const variant = searchParams.get("variant");
+  if (variant !== null && !ROUTE_VARIANTS.includes(variant as RouteVariant)) {
+    return { error: `Variant must be one of ${ROUTE_VARIANTS.join(", ")}` };
+  }
+
+  const stageCount = parseRange(searchParams, "stages", true);
+  if (typeof stageCount === "string") return { error: stageCount };
+  const distanceKm = parseRange(searchParams, "distance", false);
+  if (typeof distanceKm === "string") return { error: distanceKm };
+
+  const sort = searchParams.get("sort");
+  if (sort !== null && !ROUTE_SORTS.includes(sort as RouteSort)) {
+    return { error: `Sort must be one of ${ROUTE_SORTS.join(", ")}` };
+  }
+
+  const order = searchParams.get("order") ?? "asc";
+  if (order !== "asc" && order !== "desc") {
+    return { error: "Order must be asc or desc" };
+  }
+
+  const view = searchParams.get("view");
+  if (view !== null && view !== "summary" && view !== "full") {
+    return { error: "View must be summary or full" };
+  }
+
+  let limit: number | null = null;
+  const limitParam = searchParams.get("limit");
+  if (limitParam !== null) {
+    limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1) {
+      return { error: "Limit must be a positive integer" };
+    }
+    limit = Math.min(limit, MAX_LIMIT);
+  }
+
+  let cursor: RouteCursor | null = null;
+  const cursorParam = searchParams.get("cursor");
+  if (cursorParam) {
+    cursor = decodeCursor(cursorParam);
+    if (!cursor) return { error: "Invalid cursor" };
+  }
+
+  return {
+    query: {
+      groupName: searchParams.get("group_name")?.trim() || null,
+      text: searchParams.get("q")?.trim() || null,
+      variant: variant as RouteVariant | null,
+      stageCount,
+      distanceKm,
+      sort: sort as RouteSort | null,
+      order,
+      summary: view === "summary",
+      limit,
+      cursor,
+    },
+  };
+}
+
+export function routeListWhere(query: RouteListQuery): Prisma.RouteWhereInput {
+  const where: Prisma.RouteWhereInput[] = [];
+  if (query.groupName) where.push({ groupName: query.groupName });
+  if (query.text) {
+    where.push({
+      OR: [
+        { routeName: { contains: query.text, mode: "insensitive" } },
+        { routeId: { contains: query.text, mode: "insensitive" } },
+      ],
+    });
+  }
+  if (query.variant === "regular") {
+    where.push({
+      OR: [{ variantOf: { isSet: false } }, { variantOf: null }],
+    });
+  } else if (query.variant === "variant") {
+    where.push({ variantOf: { not: null } });
+  } else if (query.variant) {
+    where.push({ variantType: query.variant as VariantType });
+  }
+  return { AND: where };
+}
+
+export function totalDistanceKm(stages: Array<{ distanceKm: number }>) {
+  return (
+    Math.round(stages.reduce((sum, stage) => sum + stage.distanceKm, 0) * 100) /
+    100
+  );
+}
+
+function sortKey(route: RouteSortFields, sort: RouteSort | null) {
+  switch (sort) {
+    case "name":
+      return route.routeName.toLocaleLowerCase();
+    case "stage_count":
+      return route.stages.length;
+    case "total_distance":
+      return totalDistanceKm(route.stages);
+    default:
+      return route.routeId;
+  }
+}
+
+function compare(
+  a: { key: string | number; route_id: string },
+  b: { key: string | number; route_id: string },
+) {
+  if (a.key !== b.key) {
+    return typeof a.key === "number" && typeof b.key === "number"
+      ? a.key - b.key
+      : String(a.key).localeCompare(String(b.key));
+  }
+  return a.route_id.localeCompare(b.route_id);
+}
+
+// Applies the stage count and distance ranges, orders the matching routes
+// and cuts out the requested page. Returns the ids to load, in order, and
+// the cursor of the next page if there is one.
+export function pageRoutes(routes: RouteSortFields[], query: RouteListQuery) {
+  const direction = query.order === "desc" ? -1 : 1;
+  const ranked = routes
+    .filter(
+      (route) =>
+        inRange(route.stages.length, query.stageCount) &&
+        inRange(totalDistanceKm(route.stages), query.distanceKm),
+    )
+    .map((route) => ({
+      id: route.id,
+      key: sortKey(route, query.sort),
+      route_id: route.routeId,
+    }))
+    .sort((a, b) => direction * compare(a, b));
+
+  const cursor = query.cursor;
+  const start = cursor
+    ? ranked.findIndex((item) => direction * compare(item, cursor) > 0)
+    : 0;
+  const rest = start === -1 ? [] : ranked.slice(start);
+  const page = query.limit === null ? rest : rest.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    ids: page.map((item) => item.id),
+    nextCursor:
+      rest.length > page.length && last
+        ? encodeCursor({ key: last.key, route_id: last.route_id })
+        : null,
+  };
+}
+
+function encodeCursor(cursor: RouteCursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): RouteCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (
+      (typeof cursor?.key === "string" || typeof cursor?.key === "number") &&
+      typeof cursor?.route_id === "string"
+    ) {
+      return { key: cursor.key, route_id: cursor.route_id };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
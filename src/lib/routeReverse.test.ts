@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { reverseRoute } from "./routeReverse";
+
+function stage(stageNumber: number, distances: string[]) {
+  return {
+    stage_number: stageNumber,
+    distance_km: 12,
+    distance_miles: 7.5,
+    details: {
+      total_distance_m: 12000,
+      accumulated_ascent_m: 500,
+      accumulated_descent_m: 200,
+      accumulated_ascent: "500 m",
+      accumulated_descent: "200 m",
+    },
+    facilities: distances.map((distance, i) => ({ index: i + 1, distance })),
+    profile: {
+      points: [
+        [0, 100],
+        [12, 400],
+      ] as Array<[number, number]>,
+      min_elevation_m: 100,
+      max_elevation_m: 400,
+      steepest_segments: [{ start_km: 2, end_km: 3, grade_percent: 10 }],
+    },
+  };
+}
+
+describe("reverseRoute", () => {
+  const route = {
+    stages: [stage(1, ["3.2 km", "1,200 m", "4,5 km"]), stage(2, [])],
+    starting_point: [{ name: "Town square", stage_number: 1 }],
+  };
+
+  it("renumbers stages in the reverse order", () => {
+    const { route: reversed, renumbered } = reverseRoute(route);
+    assert.deepEqual(
+      reversed.stages.map((s) => s.stage_number),
+      [1, 2],
+    );
+    assert.deepEqual(renumbered, { 1: 2, 2: 1 });
+    assert.deepEqual(reversed.starting_point, [
+      { name: "Town square", stage_number: 2 },
+    ]);
+  });
+
+  it("swaps ascent and descent and mirrors the profile", () => {
+    const reversed = reverseRoute(route).route.stages[1];
+    assert.equal(reversed.details.accumulated_ascent_m, 200);
+    assert.equal(reversed.details.accumulated_descent, "500 m");
+    assert.deepEqual(reversed.profile.points, [
+      [0, 400],
+      [12, 100],
+    ]);
+    assert.deepEqual(reversed.profile.steepest_segments, [
+      { start_km: 9, end_km: 10, grade_percent: -10 },
+    ]);
+  });
+
+  it("measures facility distances from the other end", () => {
+    const { route: reversed, warnings } = reverseRoute(route);
+    assert.deepEqual(
+      reversed.stages[1].facilities.map((f) => [f.index, f.distance]),
+      [
+        [1, "7,5 km"],
+        [2, "10800 m"],
+        [3, "8.8 km"],
+      ],
+    );
+    assert.deepEqual(warnings, []);
+  });
+
+  it("leaves distances it cannot read and warns", () => {
+    const { route: reversed, warnings } = reverseRoute({
+      stages: [stage(1, ["by the church", "30 km"])],
+      starting_point: [],
+    });
+    assert.deepEqual(
+      reversed.stages[0].facilities.map((f) => f.distance),
+      ["30 km", "by the church"],
+    );
+    assert.equal(warnings.length, 2);
+  });
+});
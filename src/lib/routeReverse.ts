@@ -0,0 +1,155 @@
+import { round } from "./json";
+import { findNumber } from "./stageMeasures";
+import type { ElevationProfile } from "./trackStats";
+
+// Turns a route in export shape into the same route walked the other way:
+//
+//   - stages in reverse order, renumbered from 1
+//   - ascent and descent swapped
+//   - elevation profiles mirrored
+//   - facility distances measured from the other end of the stage, with
+//     facilities listed in walking order again
+//   - starting points kept on the same stage, under its new number
+//
+// Everything else (names, accommodations, totals) carries over unchanged.
+
+type ReversibleDetails = {
+  total_distance_m?: number | null;
+  accumulated_ascent_m?: number | null;
+  accumulated_descent_m?: number | null;
+  accumulated_ascent?: string | null;
+  accumulated_descent?: string | null;
+};
+
+type ReversibleStage = {
+  stage_number: number;
+  distance_km: number;
+  distance_miles: number;
+  details: ReversibleDetails;
+  facilities: Array<{ index: number; distance?: string | null }>;
+  profile?: ElevationProfile | null;
+};
+
+type ReversibleRoute = {
+  stages: ReversibleStage[];
+  // stored as loose JSON
+  starting_point: unknown[];
+};
+
+// Facility distances are free text measured from the stage start, such as
+// "3.2 km", "2 mi" or "800 m". The number is replaced and the rest of the
+// text kept; null when it cannot be read.
+function distanceFromOtherEnd(value: string, stage: ReversibleStage) {
+  const match = findNumber(value);
+  if (!match || match.value < 0) return null;
+  const distance = match.value;
+  const rest = value.slice(match.index + match.text.length);
+
+  const stageMeters =
+    stage.details.total_distance_m ?? stage.distance_km * 1000;
+  let length: number;
+  let digits = 1;
+  if (/^\s*mi/i.test(rest)) {
+    length = stage.distance_miles;
+  } else if (/^\s*m\b/i.test(rest)) {
+    length = stageMeters;
+    digits = 0;
+  } else {
+    length = stageMeters / 1000;
+  }
+  if (!(length > 0) || distance > length) return null;
+
+  let formatted = String(round(length - distance, digits));
+  if (match.decimalComma) formatted = formatted.replace(".", ",");
+  return `${value.slice(0, match.index)}${formatted}${rest}`;
+}
+
+function mirrorProfile(profile: ElevationProfile): ElevationProfile {
+  const lengthKm = profile.points[profile.points.length - 1]?.[0] ?? 0;
+  return {
+    ...profile,
+    points: profile.points
+      .map(([km, ele]) => [round(lengthKm - km, 3), ele] as [number, number])
+      .reverse(),
+    steepest_segments: profile.steepest_segments
+      .map((s) => ({
+        start_km: round(lengthKm - s.end_km, 2),
+        end_km: round(lengthKm - s.start_km, 2),
+        grade_percent: -s.grade_percent,
+      }))
+      .sort((a, b) => a.start_km - b.start_km),
+  };
+}
+
+// Starting points kept on the same stage, under its new number
+export function renumberStartingPoints<T>(
+  startingPoint: T[],
+  renumbered: Record<number, number>,
+) {
+  return startingPoint.map((point) => {
+    const stageNumber = (point as { stage_number?: unknown } | null)
+      ?.stage_number;
+    return typeof stageNumber === "number" && renumbered[stageNumber]
+      ? ({ ...point, stage_number: renumbered[stageNumber] } as T)
+      : point;
+  });
+}
+
+// Returns the reversed route, the new number of each old stage and notes
+// about facility distances that could not be recomputed and were left as
+// they were
+export function reverseRoute<T extends ReversibleRoute>(route: T) {
+  const warnings: string[] = [];
+  const ordered = [...route.stages].sort(
+    (a, b) => b.stage_number - a.stage_number,
+  );
+  // old stage number -> new
+  const renumbered: Record<number, number> = Object.fromEntries(
+    ordered.map((stage, i) => [stage.stage_number, i + 1]),
+  );
+
+  const stages = ordered.map((stage, i) => {
+    // Facilities keep their index values, reassigned in the new walking order
+    const indexes = stage.facilities.map((f) => f.index).sort((a, b) => a - b);
+    const facilities = [...stage.facilities]
+      .sort((a, b) => b.index - a.index)
+      .map((facility, k) => {
+        let distance = facility.distance;
+        if (distance?.trim()) {
+          const reversed = distanceFromOtherEnd(distance, stage);
+          if (reversed === null) {
+            warnings.push(
+              `Stage ${stage.stage_number}, facility ${facility.index}: could not read distance "${distance}"`,
+            );
+          } else {
+            distance = reversed;
+          }
+        }
+        return { ...facility, index: indexes[k], distance };
+      });
+
+    return {
+      ...stage,
+      stage_number: i + 1,
+      details: {
+        ...stage.details,
+        accumulated_ascent_m: stage.details.accumulated_descent_m,
+        accumulated_descent_m: stage.details.accumulated_ascent_m,
+        accumulated_ascent: stage.details.accumulated_descent,
+        accumulated_descent: stage.details.accumulated_ascent,
+      },
+      facilities,
+      profile: stage.profile ? mirrorProfile(stage.profile) : stage.profile,
+    };
+  });
+
+  return {
+    route: {
+      ...route,
+      stages,
+      starting_point: renumberStartingPoints(route.starting_point, renumbered),
+    } as T,
+    renumbered,
+    warnings,
+  };
+}
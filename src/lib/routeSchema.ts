@@ -0,0 +1,277 @@
+import { z } from "zod";
+import { MEASURE_FIELDS } from "./stageMeasures";
+
+// Mirrors the `ServiceLabels` enum in prisma/schema.prisma
+export const SERVICE_OPTIONS = [
+  "Shop",
+  "ATM",
+  "Food_Drink",
+  "Camino_Stamp",
+  "Hotel",
+  "Guest_House",
+  "Supermarket",
+  "Campsite",
+  "Albergue",
+  "Pharmacy",
+  // "Blank_Space",
+] as const;
+
+// Mirrors the `VariantType` enum in prisma/schema.prisma
+export const VARIANT_TYPES = [
+  "spiritual",
+  "reverse",
+  "short",
+  "accessible",
+] as const;
+
+export type VariantType = (typeof VARIANT_TYPES)[number];
+
+export const VARIANT_LABELS: Record<VariantType, string> = {
+  spiritual: "Spiritual",
+  reverse: "Reverse direction",
+  short: "Short version",
+  accessible: "Accessible",
+};
+
+// A variant names its parent route and what kind of variant it is; both are
+// null on regular routes (see src/lib/routeVariants.ts)
+const variantFields = {
+  variant_of: z.string().trim().min(1).nullish(),
+  variant_type: z.enum(VARIANT_TYPES).nullish(),
+};
+
+// Empty form inputs mean "no coordinate" rather than 0
+const coordinateSchema = (limit: number, label: string) =>
+  z.preprocess(
+    (value) => (value === "" ? null : value),
+    z.coerce
+      .number()
+      .min(-limit, `${label} must be between -${limit} and ${limit}`)
+      .max(limit, `${label} must be between -${limit} and ${limit}`)
+      .nullish(),
+  );
+
+const coordinateFields = {
+  lat: coordinateSchema(90, "Latitude"),
+  long: coordinateSchema(180, "Longitude"),
+};
+
+// 0,0 is what an untouched coordinate input used to default to
+function rejectNullIsland(
+  value: { lat?: number | null; long?: number | null },
+  ctx: z.RefinementCtx,
+) {
+  if (value.lat === 0 && value.long === 0) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["lat"],
+      message: "0,0 is not a real location; pick the coordinates on the map",
+    });
+  }
+}
+
+// Optional contact/coordinate fields come back as `null` from the API,
+// so they accept null as well as undefined.
+const accommodationFields = z.object({
+  name: z.string(),
+  price_category: z.string(),
+  contact_url: z.string().nullish(),
+  contact_phone: z.string().nullish(),
+  ...coordinateFields,
+});
+
+export const accommodationSchema =
+  accommodationFields.superRefine(rejectNullIsland);
+
+// Starting point accommodations have no required fields
+const startingPointAccommodationSchema = accommodationFields
+  .partial({ name: true, price_category: true })
+  .superRefine(rejectNullIsland);
+
+export const facilitySchema = z.object({
+  index: z.coerce.number(),
+  name: z.string().nullish(),
+  distance: z.string().nullish(),
+  services: z.array(z.enum(SERVICE_OPTIONS)),
+});
+
+const measureSchema = (label: string, integer = false) =>
+  z.preprocess(
+    (value) => (value === "" ? null : value),
+    (integer
+      ? z.coerce.number().int(`${label} must be a whole number`)
+      : z.coerce.number()
+    )
+      .min(0, `${label} cannot be negative`)
+      .nullish(),
+  );
+
+// Typed measurements are authoritative. The display strings are still
+// accepted from older exports and are parsed when the typed value is
+// missing, so a string that cannot be parsed is rejected here.
+export const stageDetailsSchema = z
+  .object({
+    total_distance_m: measureSchema("Total distance"),
+    total_time_min: measureSchema("Total time", true),
+    accumulated_ascent_m: measureSchema("Ascent"),
+    accumulated_descent_m: measureSchema("Descent"),
+    total_distance: z.string().nullish(),
+    total_time: z.string().nullish(),
+    accumulated_ascent: z.string().nullish(),
+    accumulated_descent: z.string().nullish(),
+    walking_surface: z.array(z.string()),
+    elevation_profile: z.string(),
+    challenges: z.array(z.string()),
+    highlights: z.array(z.string()),
+  })
+  .superRefine((details, ctx) => {
+    MEASURE_FIELDS.forEach((field) => {
+      const display = details[field.display];
+      if (details[field.typed] != null || !display?.trim()) return;
+      if (field.parse(display) === null) {
+        ctx.addIssue({
+          code: "custom",
+          path: [field.display],
+          message: `Could not read "${display}"; enter the value as a number`,
+        });
+      }
+    });
+  });
+
+export const elevationProfileSchema = z.object({
+  points: z.array(z.tuple([z.number(), z.number()])),
+  min_elevation_m: z.number(),
+  max_elevation_m: z.number(),
+  steepest_segments: z.array(
+    z.object({
+      start_km: z.number(),
+      end_km: z.number(),
+      grade_percent: z.number(),
+    }),
+  ),
+});
+
+export const stageSchema = z.object({
+  stage_number: z.coerce.number().int().min(1),
+  stage_name: z.string().min(1, "Stage Name is required"),
+  distance_km: z.coerce.number(),
+  distance_miles: z.coerce.number(),
+  gpx: z.string().optional(),
+  // per-stage details
+  details: stageDetailsSchema,
+  facilities: z.array(facilitySchema),
+  accommodations: z.array(accommodationSchema),
+  // computed from the uploaded GPX track
+  profile: elevationProfileSchema.nullish(),
+});
+
+const stagesSchema = z.array(stageSchema).superRefine((stages, ctx) => {
+  const seen = new Set<number>();
+  stages.forEach((stage, index) => {
+    if (seen.has(stage.stage_number)) {
+      ctx.addIssue({
+        code: "custom",
+        path: [index, "stage_number"],
+        message: `Stage ${stage.stage_number} is duplicated.`,
+      });
+    }
+    seen.add(stage.stage_number);
+  });
+});
+
+// Form schema used by RouteFormUpdate
+export const routeSchema = z.object({
+  route_id: z.string().min(1, "Route ID is required"),
+  group_name: z.string().optional().default(""),
+  route_name: z.string().min(1, "Route Name is required"),
+  // route-level average daily distance metrics (array of objects)
+  avg_daily_distance: z
+    .array(
+      z.object({
+        range_value: z.string().optional(),
+        minimum_km: z.coerce.number().optional(),
+        minimum_mile: z.coerce.number().optional(),
+        maximum_km: z.coerce.number().optional(),
+        maximum_mile: z.coerce.number().optional(),
+        days: z.coerce.number().optional(),
+      }),
+    )
+    .optional(),
+  // route-level starting points
+  starting_point: z
+    .array(
+      z.object({
+        name: z.string().optional(),
+        avg_distance: z.string().optional(),
+        avg_daily: z.string().optional(),
+        stage_number: z.coerce.number().optional(),
+        accommodations: z.array(startingPointAccommodationSchema).optional(),
+      }),
+    )
+    .optional(),
+  ...variantFields,
+  stages: stagesSchema,
+});
+
+// API schema for POST/PUT bodies. Route-level JSON arrays keep their extra
+// keys (e.g. `avg_daily_distance_1`) since they are stored as-is.
+export const routePayloadSchema = z.object({
+  route_id: z.string().trim().min(1, "Route ID is required"),
+  group_name: z.string().optional().default(""),
+  route_name: z.string().trim().min(1, "Route Name is required"),
+  avg_daily_distance: z
+    .array(z.record(z.string(), z.unknown()))
+    .optional()
+    .default([]),
+  starting_point: z
+    .array(
+      z.looseObject({
+        stage_number: z.coerce.number().int().min(1).optional(),
+        accommodations: z.array(startingPointAccommodationSchema).optional(),
+      }),
+    )
+    .optional()
+    .default([]),
+  ...variantFields,
+  stages: stagesSchema.optional().default([]),
+});
+
+export type RoutePayload = z.infer<typeof routePayloadSchema>;
+
+// One route as listed by GET /api/route, which doubles as the export
+export const routeExportSchema = routePayloadSchema.extend({
+  // needed as `If-Match` when saving an edit
+  version: z.number().int().optional(),
+  // variants only: the parent has changes to merge
+  parent_changed: z.boolean().optional(),
+  // only with `include_deleted=true`
+  deleted_at: z.iso.datetime().optional(),
+});
+
+// Every stage number of a route, in the new walking order
+export const reorderStagesSchema = z.object({
+  stage_numbers: z
+    .array(z.number().int().min(1))
+    .min(1, "List the stages in their new order"),
+});
+
+export type FieldError = {
+  path: string;
+  message: string;
+};
+
+// Formats zod issue paths as JSON paths, e.g. `stages[3].details.total_time`
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.reduce<string>(
+      (acc, key) =>
+        typeof key === "number"
+          ? `${acc}[${key}]`
+          : acc
+            ? `${acc}.${String(key)}`
+            : String(key),
+      "",
+    ),
+    message: issue.message,
+  }));
+}
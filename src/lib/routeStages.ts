@@ -0,0 +1,94 @@
+import type { Prisma } from "@prisma/client";
+import { versionConflict } from "./apiErrors";
+import { recordAudit, summarizeChanges } from "./audit";
+import prisma from "./prisma";
+import { recordRevision } from "./revisions";
+import { formatRoute, type RouteRecord } from "./routeFormat";
+import { routeVersion, versionWhere } from "./routeVersion";
+import { moveTracks } from "./stageTracks";
+import { NextResponse } from "next/server";
+
+// Stages are embedded in the route document, so a write to one stage still
+// replaces the route's stage list. It is conditional on the version the
+// route was read at, like a full PUT, so a concurrent save of another stage
+// is not lost.
+
+type Actor = { id: string; username: string };
+
+type StageWrite = {
+  stages: Prisma.StageCreateInput[];
+  startingPoint?: Prisma.InputJsonValue[];
+  // stages whose stored GPX track goes with them
+  removed?: number[];
+  // old stage number -> new, for stored GPX tracks that follow their stage
+  renumbered?: Record<number, number>;
+};
+
+export function parseStageNumber(value: string) {
+  const stageNumber = Number(value);
+  return Number.isInteger(stageNumber) && stageNumber >= 1 ? stageNumber : null;
+}
+
+// Stored stages are written back as they are, so legacy fields on the
+// stages a request does not touch survive
+export function storedStages(route: RouteRecord) {
+  return route.stages as unknown as Prisma.StageCreateInput[];
+}
+
+export function byStageNumber(stages: Prisma.StageCreateInput[]) {
+  return [...stages].sort((a, b) => a.stageNumber - b.stageNumber);
+}
+
+// Saves the new stage list and records it in the history and audit log.
+// Returns the updated route, or the 412 response when `expectedVersion`
+// (from `If-Match`, null when not sent) or a concurrent write got in first.
+export async function writeStages(
+  existing: RouteRecord,
+  expectedVersion: number | "any" | null,
+  write: StageWrite,
+  actor: Actor,
+) {
+  const currentVersion = routeVersion(existing);
+  if (
+    expectedVersion !== null &&
+    expectedVersion !== "any" &&
+    expectedVersion !== currentVersion
+  ) {
+    return { error: versionConflict(currentVersion, formatRoute(existing)) };
+  }
+
+  const { count } = await prisma.route.updateMany({
+    where: { id: existing.id, ...versionWhere(currentVersion) },
+    data: {
+      stages: write.stages,
+      ...(write.startingPoint && { startingPoint: write.startingPoint }),
+      version: currentVersion + 1,
+    },
+  });
+  const updated = await prisma.route.findUnique({
+    where: { id: existing.id },
+  });
+  if (!updated) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: "Route not found" },
+        { status: 404 },
+      ),
+    };
+  }
+  if (count === 0) {
+    return {
+      error: versionConflict(routeVersion(updated), formatRoute(updated)),
+    };
+  }
+
+  await moveTracks(existing.id, write.removed ?? [], write.renumbered ?? {});
+  await recordRevision(updated, "update", actor);
+  await recordAudit(
+    updated.routeId,
+    "updated",
+    actor,
+    summarizeChanges(existing, updated),
+  );
+  return { route: updated };
+}
@@ -0,0 +1,211 @@
+import type { Prisma, VariantType } from "@prisma/client";
+import { recordAudit } from "./audit";
+import prisma from "./prisma";
+import { recordRevision } from "./revisions";
+import { formatRoute, type RouteRecord } from "./routeFormat";
+import { reverseRoute } from "./routeReverse";
+import type { FieldError, RoutePayload } from "./routeSchema";
+import { routeVersion, updateAtVersion } from "./routeVersion";
+import { LIVE_ROUTE } from "./trash";
+
+// Variants are one level deep: a variant's parent is a regular route, and
+// a route with variants cannot become a variant itself. Parents are
+// referenced by `route_id`, like revisions, so exports stay self-contained.
+
+type VariantFields = Pick<
+  RoutePayload,
+  "route_id" | "variant_of" | "variant_type"
+>;
+
+// Checks that need no database: the parent and type come as a pair, and a
+// route cannot be a variant of itself. Bulk imports stop here, since a
+// parent may come later in the same file.
+export function variantShapeErrors(route: VariantFields): FieldError[] | null {
+  if (!route.variant_of && !route.variant_type) return null;
+  if (!route.variant_of) {
+    return [{ path: "variant_of", message: "Variant needs a parent route" }];
+  }
+  if (!route.variant_type) {
+    return [{ path: "variant_type", message: "Variant needs a variant type" }];
+  }
+  if (route.variant_of === route.route_id) {
+    return [
+      { path: "variant_of", message: "A route cannot be its own variant" },
+    ];
+  }
+  return null;
+}
+
+// `currentRouteId` is the route being updated, if any, whose own variants
+// would otherwise end up two levels deep
+export async function variantErrors(
+  route: VariantFields,
+  currentRouteId?: string,
+): Promise<FieldError[] | null> {
+  const shapeErrors = variantShapeErrors(route);
+  if (shapeErrors || !route.variant_of) return shapeErrors;
+
+  const parent = await prisma.route.findFirst({
+    where: { routeId: route.variant_of, ...LIVE_ROUTE },
+    select: { variantOf: true },
+  });
+  if (!parent) {
+    return [
+      {
+        path: "variant_of",
+        message: `Unknown parent route "${route.variant_of}"`,
+      },
+    ];
+  }
+  if (parent.variantOf) {
+    return [
+      {
+        path: "variant_of",
+        message: `"${route.variant_of}" is itself a variant of "${parent.variantOf}"`,
+      },
+    ];
+  }
+
+  if (currentRouteId) {
+    const ownVariant = await prisma.route.findFirst({
+      where: { variantOf: currentRouteId },
+      select: { routeId: true },
+    });
+    if (ownVariant) {
+      return [
+        {
+          path: "variant_of",
+          message: `Route has variants of its own (e.g. "${ownVariant.routeId}")`,
+        },
+      ];
+    }
+  }
+  return null;
+}
+
+// The parent as a variant of this type compares itself with: reversed for
+// reverse variants, so stages line up with the variant's own
+export function parentShape(
+  parent: RouteRecord,
+  variantType: VariantType | null,
+) {
+  const shape = formatRoute(parent);
+  return variantType === "reverse" ? reverseRoute(shape).route : shape;
+}
+
+// Prisma data that starts tracking the parent as it is now, so later parent
+// edits can be merged in (see src/lib/variantSync.ts); null when the parent
+// is not live
+export async function trackParent(
+  parentRouteId: string,
+  variantType: VariantType | null,
+) {
+  const parent = await prisma.route.findFirst({
+    where: { routeId: parentRouteId, ...LIVE_ROUTE },
+  });
+  if (!parent) return null;
+  return {
+    variantBase: parentShape(
+      parent,
+      variantType,
+    ) as unknown as Prisma.InputJsonValue,
+    variantBaseVersion: routeVersion(parent),
+  };
+}
+
+// Update data for a route that stops tracking a parent
+export const UNTRACKED = {
+  variantBase: { unset: true },
+  variantBaseVersion: { unset: true },
+} satisfies Prisma.RouteUpdateInput;
+
+type VariantLink = {
+  variantOf: string | null;
+  variantType: VariantType | null;
+};
+
+// Tracking data for a write of `route`, given the route as it was (null for
+// creates): unchanged when the parent and type stay the same, reset to the
+// new parent when either changes
+export async function parentTracking(
+  existing: VariantLink | null,
+  route: VariantLink,
+) {
+  if (
+    existing &&
+    (existing.variantOf ?? null) === route.variantOf &&
+    (existing.variantType ?? null) === route.variantType
+  ) {
+    return {};
+  }
+  const tracked = route.variantOf
+    ? await trackParent(route.variantOf, route.variantType)
+    : null;
+  return tracked ?? (existing ? UNTRACKED : {});
+}
+
+// The route_ids of tracked variants whose parent has been saved since they
+// last merged it
+export async function variantsBehindParent(
+  routes: Array<{
+    routeId: string;
+    variantOf?: string | null;
+    variantBaseVersion?: number | null;
+  }>,
+) {
+  const tracked = routes.filter(
+    (route) => route.variantOf && route.variantBaseVersion != null,
+  );
+  const parents = await prisma.route.findMany({
+    where: {
+      routeId: { in: tracked.map((route) => route.variantOf!) },
+      ...LIVE_ROUTE,
+    },
+    select: { routeId: true, version: true },
+  });
+  const parentVersions = Object.fromEntries(
+    parents.map((parent) => [parent.routeId, routeVersion(parent)]),
+  );
+  return new Set(
+    tracked
+      .filter((route) => {
+        const parentVersion = parentVersions[route.variantOf!];
+        return (
+          parentVersion !== undefined &&
+          parentVersion !== route.variantBaseVersion
+        );
+      })
+      .map((route) => route.routeId),
+  );
+}
+
+// Keeps variants attached when their parent's `route_id` changes, as a
+// normal edit of each variant so versions, history and the audit log stay
+// complete
+export async function relinkVariants(
+  fromRouteId: string,
+  toRouteId: string,
+  actor: { id: string; username: string },
+) {
+  if (fromRouteId === toRouteId) return 0;
+  const variants = await prisma.route.findMany({
+    where: { variantOf: fromRouteId },
+  });
+  for (const found of variants) {
+    // Like any edit, conditional on the version; a variant saved in the
+    // meantime is read again and relinked from there
+    let variant: RouteRecord | null = found;
+    while (variant?.variantOf === fromRouteId) {
+      const result = await updateAtVersion(variant, { variantOf: toRouteId });
+      if (result.saved && result.route) {
+        await recordRevision(result.route, "update", actor);
+        await recordAudit(result.route.routeId, "updated", actor, [
+          { path: "variant_of", before: fromRouteId, after: toRouteId },
+        ]);
+        break;
+      }
+      variant = result.route;
+    }
+  }
+  return variants.length;
+}
@@ -0,0 +1,50 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { reconcileTracks } from "./stageTracks";
+
+// Routes saved before versioning have no `version` field; they count as 0
+export function routeVersion(route: { version?: number | null }) {
+  return route.version ?? 0;
+}
+
+export function toETag(version: number) {
+  return `"${version}"`;
+}
+
+// Reads `If-Match`. Returns null when the header is missing or unusable and
+// "any" for `*`, which skips the check.
+export function parseIfMatch(header: string | null): number | "any" | null {
+  if (!header) return null;
+  const value = header.trim();
+  if (value === "*") return "any";
+  const match = value.match(/^(?:W\/)?"?(\d+)"?$/);
+  return match ? Number(match[1]) : null;
+}
+
+// Matches the route only while it is still at `version`
+export function versionWhere(version: number): Prisma.RouteWhereInput {
+  return version === 0
+    ? { OR: [{ version: { isSet: false } }, { version: 0 }] }
+    : { version };
+}
+
+// Applies `data` and moves the route to the next version, but only while
+// it is still at the version it was read at. `saved` is false when another
+// write got in first; `route` is the route as it is now either way (null
+// once it is gone). Writes that replace the stage list also bring uploaded
+// tracks in line with it.
+export async function updateAtVersion(
+  route: { id: string; version?: number | null },
+  data: Prisma.RouteUpdateManyMutationInput,
+) {
+  const version = routeVersion(route);
+  const { count } = await prisma.route.updateMany({
+    where: { id: route.id, ...versionWhere(version) },
+    data: { ...data, version: version + 1 },
+  });
+  const current = await prisma.route.findUnique({ where: { id: route.id } });
+  if (count > 0 && current && Array.isArray(data.stages)) {
+    await reconcileTracks(current.id, current.stages);
+  }
+  return { saved: count > 0, route: current };
+}
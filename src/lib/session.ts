@@ -0,0 +1,134 @@
+// Signed session cookie shared by the proxy and the route handlers. Only
+// uses Web Crypto so it runs wherever the proxy does.
+
+export const SESSION_COOKIE = "hm_session";
+
+// Mirrors the `Role` enum in prisma/schema.prisma, lowest to highest
+export const ROLES = ["viewer", "editor", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export function hasRole(role: Role, required: Role) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export type SessionUser = {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+};
+
+type SessionPayload = SessionUser & {
+  // expiry, seconds since epoch
+  exp: number;
+};
+
+const DEFAULT_SESSION_HOURS = 12;
+
+// Overridable with AUTH_SESSION_HOURS
+export function getSessionMaxAge() {
+  const hours = Number(process.env.AUTH_SESSION_HOURS);
+  return (
+    (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SESSION_HOURS) * 3600
+  );
+}
+
+// Thrown when sessions cannot be signed or checked at all, as opposed to a
+// bad token; see .env.example
+export class MissingAuthSecretError extends Error {
+  constructor() {
+    super(
+      "AUTH_SECRET is not set; sessions cannot be signed or verified. " +
+        "Set it to a long random string (see .env.example).",
+    );
+    this.name = "MissingAuthSecretError";
+  }
+}
+
+function getSecret() {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new MissingAuthSecretError();
+  }
+  return secret;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function hmacKey() {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+export async function signSession(user: SessionUser) {
+  const payload: SessionPayload = {
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    role: user.role,
+    exp: Math.floor(Date.now() / 1000) + getSessionMaxAge(),
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await hmacKey(),
+    encoder.encode(body),
+  );
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Returns null for missing, tampered or expired tokens. A missing
+// AUTH_SECRET is a configuration error rather than a bad token, so it
+// throws instead of signing everyone out.
+export async function verifySession(
+  token: string | undefined,
+): Promise<SessionUser | null> {
+  if (!token) return null;
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  const key = await hmacKey();
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      fromBase64Url(signature),
+      encoder.encode(body),
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(body)),
+    ) as SessionPayload;
+    if (payload.exp * 1000 < Date.now()) return null;
+    if (!ROLES.includes(payload.role)) return null;
+
+    return {
+      id: payload.id,
+      username: payload.username,
+      name: payload.name,
+      role: payload.role,
+    };
+  } catch {
+    return null;
+  }
+}
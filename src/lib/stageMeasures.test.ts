@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyJsonPatch } from "./jsonPatch";
+import { applyMergePatch } from "./mergePatch";
+import {
+  dropStaleMeasures,
+  dropStaleRouteMeasures,
+  hasAmbiguousDot,
+  parseDistanceMeters,
+  parseElevationMeters,
+  toStoredDetails,
+  type StageDetailsIn,
+} from "./stageMeasures";
+
+describe("hand-typed measures", () => {
+  it("reads a single dot as a decimal point", () => {
+    assert.equal(parseDistanceMeters("12.500 km"), 12500);
+    assert.equal(parseDistanceMeters("12.5"), 12500);
+    assert.equal(parseElevationMeters("1.100 m"), 1);
+  });
+
+  it("flags a single dot before three digits as ambiguous", () => {
+    assert.equal(hasAmbiguousDot("1.100 m"), true);
+    assert.equal(hasAmbiguousDot("12.500 km"), true);
+    assert.equal(hasAmbiguousDot("12.5 km"), false);
+    assert.equal(hasAmbiguousDot("1.100.000 m"), false);
+    assert.equal(hasAmbiguousDot("1.100,5 m"), false);
+    assert.equal(hasAmbiguousDot("1,100 m"), false);
+  });
+
+  it("reads dots as grouping when repeated or before a decimal comma", () => {
+    assert.equal(parseDistanceMeters("1.100.000 m"), 1100000);
+    assert.equal(parseDistanceMeters("1.100,5 m"), 1101);
+  });
+
+  it("reads a comma before three digits as grouping", () => {
+    assert.equal(parseElevationMeters("1,100 m"), 1100);
+    assert.equal(parseDistanceMeters("1,100.5 m"), 1101);
+    assert.equal(parseDistanceMeters("12,5 km"), 12500);
+  });
+});
+
+describe("patched measures", () => {
+  const stage = {
+    stage_number: 1,
+    details: {
+      total_distance_m: 22400,
+      total_time_min: 330,
+      accumulated_ascent_m: 540,
+      accumulated_descent_m: 450,
+      total_distance: "22.4 km",
+      total_time: "5h30",
+      accumulated_ascent: "540 m",
+      accumulated_descent: "450 m",
+      walking_surface: [],
+      elevation_profile: "",
+      challenges: [],
+      highlights: [],
+    },
+  };
+
+  // Applies a merge patch to the stage and stores it, as the PATCH
+  // endpoints do
+  function patchStage(patch: unknown) {
+    const patched = dropStaleMeasures(stage, applyMergePatch(stage, patch));
+    return toStoredDetails((patched as typeof stage).details as StageDetailsIn);
+  }
+
+  it("keeps the typed value when nothing about the measure changed", () => {
+    assert.equal(patchStage({ stage_number: 1 }).totalTimeMin, 330);
+  });
+
+  it("parses a display string edited on its own", () => {
+    assert.equal(
+      patchStage({ details: { total_time: "6h" } }).totalTimeMin,
+      360,
+    );
+  });
+
+  it("clears a measure whose typed value is set to null", () => {
+    const stored = patchStage({ details: { total_time_min: null } });
+    assert.equal(stored.totalTimeMin, null);
+    assert.equal(stored.totalDistanceM, 22400);
+  });
+
+  it("clears a measure whose display string is set to null", () => {
+    assert.equal(
+      patchStage({ details: { accumulated_ascent: null } }).accumulatedAscentM,
+      null,
+    );
+  });
+
+  it("prefers a new display string sent along with the null", () => {
+    const stored = patchStage({
+      details: { total_time_min: null, total_time: "4h15" },
+    });
+    assert.equal(stored.totalTimeMin, 255);
+  });
+});
+
+describe("patched route measures", () => {
+  const route = {
+    route_id: "camino-test",
+    stages: [
+      {
+        stage_number: 1,
+        details: {
+          total_time_min: 330,
+          total_time: "5h30",
+        },
+      },
+      {
+        stage_number: 2,
+        details: {
+          total_time_min: 240,
+          total_time: "4h00",
+        },
+      },
+    ],
+  };
+
+  function storedTimes(patched: unknown) {
+    const result = dropStaleRouteMeasures(route, patched) as typeof route;
+    return result.stages.map(
+      (stage) =>
+        toStoredDetails(stage.details as unknown as StageDetailsIn)
+          .totalTimeMin,
+    );
+  }
+
+  it("clears a measure removed with JSON Patch", () => {
+    const patched = applyJsonPatch(route, [
+      { op: "remove", path: "/stages/1/details/total_time_min" },
+    ]);
+    assert.deepEqual(storedTimes(patched), [330, null]);
+  });
+
+  it("matches stages by number when they are reordered", () => {
+    const patched = applyJsonPatch(route, [
+      { op: "move", from: "/stages/1", path: "/stages/0" },
+      { op: "replace", path: "/stages/1/details/total_time", value: "6h" },
+    ]);
+    assert.deepEqual(storedTimes(patched), [240, 360]);
+  });
+});
@@ -0,0 +1,277 @@
+import { isRecord } from "./json";
+
+const METERS_PER_MILE = 1609.344;
+const METERS_PER_FOOT = 0.3048;
+
+// Hand-typed values use both decimal commas ("12,5 km") and thousands
+// separators ("1,100 m"); a comma followed by exactly three digits is
+// treated as a thousands separator. A dot is a decimal point ("12.500 km")
+// unless it groups digits more than once ("1.100.000") or comes before a
+// decimal comma ("1.100,5").
+//
+// The first number in `raw`, with where it was found so callers can
+// rewrite it in place; `decimalComma` tells how it was written.
+export function findNumber(raw: string) {
+  const match = raw.match(/-?\d[\d.,]*/);
+  if (!match) return null;
+  // a trailing separator ends the sentence rather than the number
+  const text = match[0].replace(/[.,]+$/, "");
+  const dotGrouped = /^-?\d{1,3}(?:(?:\.\d{3}){2,}(?:,\d+)?|(?:\.\d{3})+,\d+)$/;
+  const ungrouped = dotGrouped.test(text)
+    ? text.replace(/\./g, "")
+    : text.replace(/,(\d{3})(?!\d)/g, "$1");
+  const number = ungrouped.replace(",", ".").match(/-?\d+(\.\d+)?/);
+  if (!number) return null;
+  return {
+    value: Number(number[0]),
+    index: match.index ?? 0,
+    text,
+    decimalComma: ungrouped.includes(","),
+  };
+}
+
+export function parseNumber(raw: string): number | null {
+  return findNumber(raw)?.value ?? null;
+}
+
+// True for a number with a single dot before exactly three digits, such
+// as "1.100 m": parsed as a decimal point (1 m), but it may have been meant
+// as a thousands separator (1100 m)
+export function hasAmbiguousDot(value: unknown) {
+  if (typeof value !== "string") return false;
+  const token = value.match(/-?\d[\d.,]*/)?.[0];
+  return token !== undefined && /^-?\d{1,3}\.\d{3}$/.test(token);
+}
+
+function isBlank(value: unknown) {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === "string" && value.trim() === "")
+  );
+}
+
+// "12 km", "12.5", "7.5 mi", "12300 m"; bare numbers are kilometres
+export function parseDistanceMeters(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? Math.round(value * 1000) : null;
+  }
+  if (typeof value !== "string" || isBlank(value)) return null;
+  const n = parseNumber(value);
+  if (n === null) return null;
+  const unit = value.toLowerCase();
+  if (/\b(mi|miles?)\b/.test(unit)) return Math.round(n * METERS_PER_MILE);
+  if (/\d\s*m\b|\bmeters?\b|\bmetres?\b/.test(unit) && !/km/.test(unit)) {
+    return Math.round(n);
+  }
+  return Math.round(n * 1000);
+}
+
+// "4h30", "4:30", "4 h 30 min", "270 min", "4.5h", "4 hours"
+export function parseDurationMinutes(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? Math.round(value) : null;
+  }
+  if (typeof value !== "string" || isBlank(value)) return null;
+  const text = value.toLowerCase().replace(",", ".");
+
+  const clock = text.match(/^\s*(\d+)\s*:\s*(\d{1,2})\s*$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)/);
+  const minutes = text.match(
+    /(\d+)\s*(?:m|min|mins|minutes?)\b|h\s*(\d{1,2})\s*$/,
+  );
+  if (hours || minutes) {
+    return Math.round(
+      (hours ? Number(hours[1]) * 60 : 0) +
+        (minutes ? Number(minutes[1] ?? minutes[2]) : 0),
+    );
+  }
+
+  // a bare number is taken as minutes
+  return /^\s*\d+\s*$/.test(text) ? Number(text) : null;
+}
+
+// "345 m", "345", "1,100 m", "1100 ft"
+export function parseElevationMeters(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? Math.round(value) : null;
+  }
+  if (typeof value !== "string" || isBlank(value)) return null;
+  const n = parseNumber(value);
+  if (n === null) return null;
+  return /\b(ft|feet)\b/i.test(value)
+    ? Math.round(n * METERS_PER_FOOT)
+    : Math.round(n);
+}
+
+// Display strings for the export format, derived from the typed values
+
+export function formatDistance(meters: number | null | undefined) {
+  if (meters === null || meters === undefined) return "";
+  return `${Number((meters / 1000).toFixed(1))} km`;
+}
+
+export function formatDuration(minutes: number | null | undefined) {
+  if (minutes === null || minutes === undefined) return "";
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${h}h${String(m).padStart(2, "0")}`;
+}
+
+export function formatElevation(meters: number | null | undefined) {
+  if (meters === null || meters === undefined) return "";
+  return `${meters} m`;
+}
+
+// The typed value wins; the display string is only parsed when the typed
+// value is missing (older exports and imports carry only strings)
+export const MEASURE_FIELDS = [
+  {
+    typed: "total_distance_m",
+    display: "total_distance",
+    parse: parseDistanceMeters,
+    format: formatDistance,
+  },
+  {
+    typed: "total_time_min",
+    display: "total_time",
+    parse: parseDurationMinutes,
+    format: formatDuration,
+  },
+  {
+    typed: "accumulated_ascent_m",
+    display: "accumulated_ascent",
+    parse: parseElevationMeters,
+    format: formatElevation,
+  },
+  {
+    typed: "accumulated_descent_m",
+    display: "accumulated_descent",
+    parse: parseElevationMeters,
+    format: formatElevation,
+  },
+] as const;
+
+// Patches apply to the export shape, where each measure appears both typed
+// and as a display string. A string that no longer matches its typed value
+// was edited on its own (e.g. `{ "details": { "total_time": "5h" } }`), so
+// the typed value it was derived from is dropped and the string parsed
+// instead. Conversely a typed value that was removed (`null` or a JSON
+// Patch `remove`) clears the measure, so its unchanged display string is
+// blanked rather than parsed back. `before` is the stage as it was before
+// patching.
+export function dropStaleMeasures(before: unknown, after: unknown) {
+  if (!isRecord(after) || !isRecord(after.details)) return after;
+  const previous =
+    isRecord(before) && isRecord(before.details) ? before.details : {};
+  const details = { ...after.details };
+  MEASURE_FIELDS.forEach((field) => {
+    const typed = details[field.typed];
+    if (typed === null || typed === undefined) {
+      if (
+        typeof previous[field.typed] === "number" &&
+        details[field.display] === previous[field.display]
+      ) {
+        details[field.display] = "";
+      }
+      return;
+    }
+    if (typeof typed !== "number") return;
+    if (details[field.display] === field.format(typed)) return;
+    if (typed === previous[field.typed]) delete details[field.typed];
+  });
+  return { ...after, details };
+}
+
+// The same for a whole patched route, matching each stage to the stage as
+// it was by stage number
+export function dropStaleRouteMeasures(before: unknown, after: unknown) {
+  if (!isRecord(after) || !Array.isArray(after.stages)) return after;
+  const previous =
+    isRecord(before) && Array.isArray(before.stages) ? before.stages : [];
+  return {
+    ...after,
+    stages: after.stages.map((stage) =>
+      dropStaleMeasures(
+        previous.find(
+          (s) =>
+            isRecord(s) &&
+            isRecord(stage) &&
+            s.stage_number === stage.stage_number,
+        ),
+        stage,
+      ),
+    ),
+  };
+}
+
+export type StageDetailsIn = {
+  total_distance?: unknown;
+  total_time?: unknown;
+  accumulated_ascent?: unknown;
+  accumulated_descent?: unknown;
+  total_distance_m?: number | null;
+  total_time_min?: number | null;
+  accumulated_ascent_m?: number | null;
+  accumulated_descent_m?: number | null;
+  walking_surface: string[];
+  elevation_profile: string;
+  challenges: string[];
+  highlights: string[];
+};
+
+function resolveMeasure(
+  details: StageDetailsIn,
+  field: (typeof MEASURE_FIELDS)[number],
+) {
+  const typed = details[field.typed];
+  if (typeof typed === "number" && Number.isFinite(typed)) return typed;
+  return field.parse(details[field.display]);
+}
+
+// Mapping between the export shape and Prisma's camelCase composite
+export type StoredStageDetails = {
+  totalDistanceM: number | null;
+  totalTimeMin: number | null;
+  accumulatedAscentM: number | null;
+  accumulatedDescentM: number | null;
+  walkingSurface: string[];
+  elevationProfile: string;
+  challenges: string[];
+  highlights: string[];
+};
+
+export function toStoredDetails(details: StageDetailsIn): StoredStageDetails {
+  const [distance, time, ascent, descent] = MEASURE_FIELDS.map((field) =>
+    resolveMeasure(details, field),
+  );
+  return {
+    totalDistanceM: distance,
+    totalTimeMin: time,
+    accumulatedAscentM: ascent,
+    accumulatedDescentM: descent,
+    walkingSurface: details.walking_surface,
+    elevationProfile: details.elevation_profile,
+    challenges: details.challenges,
+    highlights: details.highlights,
+  };
+}
+
+export function fromStoredDetails(details: StoredStageDetails) {
+  return {
+    total_distance_m: details.totalDistanceM,
+    total_time_min: details.totalTimeMin,
+    accumulated_ascent_m: details.accumulatedAscentM,
+    accumulated_descent_m: details.accumulatedDescentM,
+    total_distance: formatDistance(details.totalDistanceM),
+    total_time: formatDuration(details.totalTimeMin),
+    accumulated_ascent: formatElevation(details.accumulatedAscentM),
+    accumulated_descent: formatElevation(details.accumulatedDescentM),
+    walking_surface: details.walkingSurface,
+    elevation_profile: details.elevationProfile,
+    challenges: details.challenges,
+    highlights: details.highlights,
+  };
+}
@@ -0,0 +1,114 @@
+import prisma from "./prisma";
+
+// Uploaded GPX tracks (StageGpx) are keyed by route and stage number, so
+// they have to follow when a write renumbers or drops stages.
+
+// `renumbered` maps old stage numbers to new ones
+export async function moveTracks(
+  routeDbId: string,
+  removed: number[],
+  renumbered: Record<number, number>,
+) {
+  if (removed.length > 0) {
+    await prisma.stageGpx.deleteMany({
+      where: { routeDbId, stageNumber: { in: removed } },
+    });
+  }
+  const moves = Object.entries(renumbered)
+    .map(([from, to]) => [Number(from), to])
+    .filter(([from, to]) => from !== to);
+  // Through negative numbers first, since (route, stage) is unique and
+  // tracks may swap places
+  for (const [from, to] of moves) {
+    await prisma.stageGpx.updateMany({
+      where: { routeDbId, stageNumber: from },
+      data: { stageNumber: -to },
+    });
+  }
+  for (const [, to] of moves) {
+    await prisma.stageGpx.updateMany({
+      where: { routeDbId, stageNumber: -to },
+      data: { stageNumber: to },
+    });
+  }
+}
+
+// For whole-route saves, which carry no stage identity beyond the file name
+// a stage points at (`gpx`): stored tracks follow the stage naming their
+// file and are removed when no stage does
+export async function reconcileTracks(
+  routeDbId: string,
+  stages: { stageNumber: number; gpx: string }[],
+) {
+  const tracks = await prisma.stageGpx.findMany({
+    where: { routeDbId },
+    select: { stageNumber: true, fileName: true },
+  });
+  const claimed = new Set<number>();
+  const unplaced = tracks.filter((track) => {
+    const stage = stages.find((s) => s.stageNumber === track.stageNumber);
+    if (stage?.gpx !== track.fileName) return true;
+    claimed.add(track.stageNumber);
+    return false;
+  });
+
+  const removed: number[] = [];
+  const renumbered: Record<number, number> = {};
+  unplaced.forEach((track) => {
+    const stage = stages.find(
+      (s) => s.gpx === track.fileName && !claimed.has(s.stageNumber),
+    );
+    if (stage) {
+      claimed.add(stage.stageNumber);
+      renumbered[track.stageNumber] = stage.stageNumber;
+    } else {
+      removed.push(track.stageNumber);
+    }
+  });
+  await moveTracks(routeDbId, removed, renumbered);
+}
+
+// For a copy of a route: each of the source's tracks is copied to the
+// stage of the copy that names its file; tracks no stage names are left out
+export async function copyTracks(
+  fromRouteDbId: string,
+  toRouteDbId: string,
+  stages: { stageNumber: number; gpx: string }[],
+) {
+  const tracks = await prisma.stageGpx.findMany({
+    where: { routeDbId: fromRouteDbId },
+  });
+  // Tracks whose stage kept its number first, as in reconcileTracks
+  const placed = new Map<number, number>();
+  const claimed = new Set<number>();
+  tracks.forEach((track) => {
+    const stage = stages.find((s) => s.stageNumber === track.stageNumber);
+    if (stage?.gpx !== track.fileName) return;
+    placed.set(track.stageNumber, stage.stageNumber);
+    claimed.add(stage.stageNumber);
+  });
+  tracks.forEach((track) => {
+    if (placed.has(track.stageNumber)) return;
+    const stage = stages.find(
+      (s) => s.gpx === track.fileName && !claimed.has(s.stageNumber),
+    );
+    if (!stage) return;
+    placed.set(track.stageNumber, stage.stageNumber);
+    claimed.add(stage.stageNumber);
+  });
+
+  for (const track of tracks) {
+    const stageNumber = placed.get(track.stageNumber);
+    if (stageNumber === undefined) continue;
+    await prisma.stageGpx.create({
+      data: {
+        routeDbId: toRouteDbId,
+        stageNumber,
+        fileName: track.fileName,
+        content: track.content,
+        pointCount: track.pointCount,
+        bounds: track.bounds,
+      },
+    });
+  }
+}
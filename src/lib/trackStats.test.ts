@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { TrackPoint } from "./gpx";
+import { computeElevationProfile, findTrackDrift } from "./trackStats";
+
+describe("elevation profile", () => {
+  it("handles tracks with hundreds of thousands of points", () => {
+    const points: TrackPoint[] = Array.from({ length: 200_000 }, (_, i) => ({
+      lat: 42 + i * 0.00001,
+      lon: -8,
+      ele: 100 + (i % 1000) / 10,
+    }));
+
+    const profile = computeElevationProfile(points);
+    assert.ok(profile);
+    assert.equal(profile.min_elevation_m, 100);
+    assert.equal(profile.max_elevation_m, 200);
+    assert.ok(profile.points.length <= 121);
+  });
+});
+
+describe("track drift", () => {
+  const stats = {
+    distance_km: 12,
+    distance_miles: 7.46,
+    ascent_m: 1100,
+    descent_m: 300,
+  };
+
+  it("reads stored values the way stage measures are parsed", () => {
+    assert.deepEqual(
+      findTrackDrift(
+        {
+          distance_km: "12,1",
+          accumulated_ascent_m: "1,100 m",
+          accumulated_descent_m: 300,
+        },
+        stats,
+      ),
+      [],
+    );
+  });
+});
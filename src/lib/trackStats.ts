@@ -0,0 +1,312 @@
+import type { TrackPoint } from "./gpx";
+import { round } from "./json";
+import { parseNumber } from "./stageMeasures";
+
+const EARTH_RADIUS_M = 6371008.8;
+const METERS_PER_MILE = 1609.344;
+
+// Points averaged either side of each elevation sample before summing
+// gain/loss, since raw GPS elevation noise inflates the totals
+const SMOOTHING_RADIUS = 2;
+// Elevation changes smaller than this are treated as noise
+const ELEVATION_THRESHOLD_M = 2;
+
+// Relative difference between stored and computed values that is flagged,
+// overridable with NEXT_PUBLIC_TRACK_DRIFT_TOLERANCE (e.g. "0.05" for 5%)
+export const DEFAULT_DRIFT_TOLERANCE = 0.1;
+
+export function getDriftTolerance() {
+  const configured = Number(process.env.NEXT_PUBLIC_TRACK_DRIFT_TOLERANCE);
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_DRIFT_TOLERANCE;
+}
+
+export type TrackStats = {
+  distance_km: number;
+  distance_miles: number;
+  ascent_m: number;
+  descent_m: number;
+};
+
+export type TrackDrift = {
+  field: "distance_km" | "accumulated_ascent_m" | "accumulated_descent_m";
+  stored: number;
+  computed: number;
+  // relative difference, e.g. 0.15 for 15%
+  drift: number;
+};
+
+function toRadians(deg: number) {
+  return (deg * Math.PI) / 180;
+}
+
+export function haversineMeters(a: TrackPoint, b: TrackPoint) {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function smoothElevations(points: TrackPoint[]): number[] {
+  const elevations = points
+    .map((p) => p.ele)
+    .filter((ele): ele is number => ele !== null);
+
+  return elevations.map((_, i) => {
+    const from = Math.max(0, i - SMOOTHING_RADIUS);
+    const to = Math.min(elevations.length, i + SMOOTHING_RADIUS + 1);
+    const window = elevations.slice(from, to);
+    return window.reduce((sum, ele) => sum + ele, 0) / window.length;
+  });
+}
+
+export function computeTrackStats(points: TrackPoint[]): TrackStats {
+  let distanceM = 0;
+  for (let i = 1; i < points.length; i++) {
+    distanceM += haversineMeters(points[i - 1], points[i]);
+  }
+
+  let ascent = 0;
+  let descent = 0;
+  const elevations = smoothElevations(points);
+  // Accumulate only once the climb/drop since the last counted point clears
+  // the threshold, so slow drifts still add up but jitter does not
+  let reference = elevations[0];
+  for (const ele of elevations.slice(1)) {
+    const delta = ele - reference;
+    if (Math.abs(delta) < ELEVATION_THRESHOLD_M) continue;
+    if (delta > 0) ascent += delta;
+    else descent -= delta;
+    reference = ele;
+  }
+
+  return {
+    distance_km: round(distanceM / 1000, 2),
+    distance_miles: round(distanceM / METERS_PER_MILE, 2),
+    ascent_m: Math.round(ascent),
+    descent_m: Math.round(descent),
+  };
+}
+
+export type ElevationProfile = {
+  // [distance_km, elevation_m] pairs
+  points: Array<[number, number]>;
+  min_elevation_m: number;
+  max_elevation_m: number;
+  steepest_segments: Array<{
+    start_km: number;
+    end_km: number;
+    grade_percent: number;
+  }>;
+};
+
+const PROFILE_SAMPLES = 120;
+const STEEP_SEGMENT_KM = 0.5;
+const STEEP_SEGMENT_COUNT = 3;
+
+// Distance vs. smoothed elevation series plus the steepest ~500 m stretches.
+// Returns null when the track carries no elevation data.
+export function computeElevationProfile(
+  points: TrackPoint[],
+): ElevationProfile | null {
+  const distances: number[] = [];
+  let distanceM = 0;
+  points.forEach((p, i) => {
+    if (i > 0) distanceM += haversineMeters(points[i - 1], p);
+    if (p.ele !== null) distances.push(distanceM / 1000);
+  });
+  const elevations = smoothElevations(points);
+  if (elevations.length < 2) return null;
+
+  const series = elevations.map(
+    (ele, i) => [distances[i], ele] as [number, number],
+  );
+  const step = Math.max(1, Math.ceil(series.length / PROFILE_SAMPLES));
+  const sampled = series.filter(
+    (_, i) => i % step === 0 || i === series.length - 1,
+  );
+
+  // Grade over each window of at least STEEP_SEGMENT_KM, then keep the
+  // steepest non-overlapping ones
+  const windows: ElevationProfile["steepest_segments"] = [];
+  let j = 0;
+  for (let i = 0; i < series.length; i++) {
+    while (j < series.length && series[j][0] - series[i][0] < STEEP_SEGMENT_KM)
+      j++;
+    if (j >= series.length) break;
+    const run = (series[j][0] - series[i][0]) * 1000;
+    windows.push({
+      start_km: series[i][0],
+      end_km: series[j][0],
+      grade_percent: ((series[j][1] - series[i][1]) / run) * 100,
+    });
+  }
+  const steepest: ElevationProfile["steepest_segments"] = [];
+  windows
+    .sort((a, b) => Math.abs(b.grade_percent) - Math.abs(a.grade_percent))
+    .forEach((w) => {
+      if (steepest.length >= STEEP_SEGMENT_COUNT) return;
+      const overlaps = steepest.some(
+        (s) => w.start_km < s.end_km && w.end_km > s.start_km,
+      );
+      if (!overlaps) steepest.push(w);
+    });
+
+  // A loop rather than Math.min(...): long tracks overflow the call stack
+  let minElevation = Infinity;
+  let maxElevation = -Infinity;
+  for (const ele of elevations) {
+    if (ele < minElevation) minElevation = ele;
+    if (ele > maxElevation) maxElevation = ele;
+  }
+
+  return {
+    points: sampled.map(([km, ele]) => [round(km, 3), round(ele, 1)]),
+    min_elevation_m: Math.round(minElevation),
+    max_elevation_m: Math.round(maxElevation),
+    steepest_segments: steepest
+      .sort((a, b) => a.start_km - b.start_km)
+      .map((s) => ({
+        start_km: round(s.start_km, 2),
+        end_km: round(s.end_km, 2),
+        grade_percent: round(s.grade_percent, 1),
+      })),
+  };
+}
+
+// Joins stage profiles end to end for a whole-route view
+export function concatProfiles(
+  profiles: ElevationProfile[],
+): ElevationProfile | null {
+  if (profiles.length === 0) return null;
+
+  let offsetKm = 0;
+  const points: ElevationProfile["points"] = [];
+  const segments: ElevationProfile["steepest_segments"] = [];
+  for (const profile of profiles) {
+    profile.points.forEach(([km, ele]) =>
+      points.push([round(km + offsetKm, 3), ele]),
+    );
+    profile.steepest_segments.forEach((s) =>
+      segments.push({
+        ...s,
+        start_km: round(s.start_km + offsetKm, 2),
+        end_km: round(s.end_km + offsetKm, 2),
+      }),
+    );
+    offsetKm += profile.points[profile.points.length - 1]?.[0] ?? 0;
+  }
+
+  return {
+    points,
+    min_elevation_m: Math.min(...profiles.map((p) => p.min_elevation_m)),
+    max_elevation_m: Math.max(...profiles.map((p) => p.max_elevation_m)),
+    steepest_segments: segments
+      .sort((a, b) => Math.abs(b.grade_percent) - Math.abs(a.grade_percent))
+      .slice(0, STEEP_SEGMENT_COUNT)
+      .sort((a, b) => a.start_km - b.start_km),
+  };
+}
+
+// Reads the leading number of hand-typed values such as "345 m" or "12,5"
+export function parseLeadingNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  return parseNumber(value);
+}
+
+export function findTrackDrift(
+  stored: {
+    distance_km?: unknown;
+    accumulated_ascent_m?: unknown;
+    accumulated_descent_m?: unknown;
+  },
+  stats: TrackStats,
+  tolerance = getDriftTolerance(),
+): TrackDrift[] {
+  const pairs: Array<[TrackDrift["field"], unknown, number]> = [
+    ["distance_km", stored.distance_km, stats.distance_km],
+    ["accumulated_ascent_m", stored.accumulated_ascent_m, stats.ascent_m],
+    ["accumulated_descent_m", stored.accumulated_descent_m, stats.descent_m],
+  ];
+
+  return pairs.flatMap(([field, rawStored, computed]) => {
+    const storedValue = parseLeadingNumber(rawStored);
+    if (storedValue === null || computed === 0) return [];
+    const drift = Math.abs(storedValue - computed) / computed;
+    return drift > tolerance
+      ? [{ field, stored: storedValue, computed, drift }]
+      : [];
+  });
+}
+
+// Mapping between the export shape and Prisma's camelCase composite
+export type StoredElevationProfile = {
+  points: unknown;
+  minElevation: number;
+  maxElevation: number;
+  steepestSegments: Array<{
+    startKm: number;
+    endKm: number;
+    gradePercent: number;
+  }>;
+};
+
+export function toStoredProfile(
+  profile: ElevationProfile | null | undefined,
+): StoredElevationProfile | null {
+  if (!profile) return null;
+  return {
+    points: profile.points,
+    minElevation: profile.min_elevation_m,
+    maxElevation: profile.max_elevation_m,
+    steepestSegments: profile.steepest_segments.map((s) => ({
+      startKm: s.start_km,
+      endKm: s.end_km,
+      gradePercent: s.grade_percent,
+    })),
+  };
+}
+
+export function fromStoredProfile(
+  profile: StoredElevationProfile | null | undefined,
+): ElevationProfile | null {
+  if (!profile) return null;
+  return {
+    points: Array.isArray(profile.points)
+      ? (profile.points as Array<[number, number]>)
+      : [],
+    min_elevation_m: profile.minElevation,
+    max_elevation_m: profile.maxElevation,
+    steepest_segments: profile.steepestSegments.map((s) => ({
+      start_km: s.startKm,
+      end_km: s.endKm,
+      grade_percent: s.gradePercent,
+    })),
+  };
+}
+
+// Accommodations further than this from their stage's track are flagged
+export const ACCOMMODATION_TRACK_WARNING_KM = 2;
+
+// Distance from a point to the nearest vertex of a [lat, lon] track
+export function distanceToTrackKm(
+  lat: number,
+  lon: number,
+  track: Array<[number, number]>,
+): number | null {
+  if (track.length === 0) return null;
+  const point = { lat, lon, ele: null };
+  return (
+    Math.min(
+      ...track.map(([tLat, tLon]) =>
+        haversineMeters(point, { lat: tLat, lon: tLon, ele: null }),
+      ),
+    ) / 1000
+  );
+}
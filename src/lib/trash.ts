@@ -0,0 +1,52 @@
+import type { Prisma } from "@prisma/client";
+import { recordAudit } from "./audit";
+import prisma from "./prisma";
+
+// Deleted routes stay in the trash, with `deleted_at` set, until they are
+// restored or purged. Purging removes the document and its GPX files; its
+// revisions and audit entries are kept.
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// Routes not in the trash. Restored routes have `deletedAt: null`, routes
+// that were never deleted lack the field.
+export const LIVE_ROUTE = {
+  OR: [{ deletedAt: { isSet: false } }, { deletedAt: null }],
+} satisfies Prisma.RouteWhereInput;
+
+export const TRASHED_ROUTE = {
+  deletedAt: { not: null },
+} satisfies Prisma.RouteWhereInput;
+
+// Overridable with TRASH_RETENTION_DAYS
+export function getRetentionDays() {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+export function purgeDate(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + getRetentionDays() * 86_400_000);
+}
+
+// Purges routes that have been in the trash longer than the retention
+// period. Runs from `npm run routes:purge-trash`, for deployments that
+// schedule it, and when an admin purges expired routes from the trash page.
+export async function purgeExpiredRoutes(now = new Date()) {
+  const cutoff = new Date(now.getTime() - getRetentionDays() * 86_400_000);
+  const expired = await prisma.route.findMany({
+    where: { deletedAt: { lt: cutoff } },
+    select: { id: true, routeId: true },
+  });
+
+  const purged: string[] = [];
+  for (const route of expired) {
+    // a concurrent purge or restore may have got there first
+    const { count } = await prisma.route.deleteMany({
+      where: { id: route.id, deletedAt: { lt: cutoff } },
+    });
+    if (count === 0) continue;
+    await recordAudit(route.routeId, "purged", null, []);
+    purged.push(route.routeId);
+  }
+  return purged;
+}
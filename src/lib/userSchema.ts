@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { ROLES } from "./session";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export const createUserSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(1, "Username is required")
+    .regex(
+      /^[a-z0-9._-]+$/i,
+      "Use letters, digits, dots, dashes or underscores",
+    ),
+  name: z.string().trim().default(""),
+  password: z
+    .string()
+    .min(MIN_PASSWORD_LENGTH, `Use at least ${MIN_PASSWORD_LENGTH} characters`),
+  role: z.enum(ROLES).default("viewer"),
+});
+
+export const updateUserSchema = createUserSchema
+  .omit({ username: true })
+  .partial();
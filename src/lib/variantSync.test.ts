@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mergeRoutes } from "./routeMerge";
+import { syncVariant } from "./variantSync";
+
+const parent = {
+  route_id: "camino",
+  route_name: "Camino",
+  group_name: "Caminos",
+  variant_of: null,
+  variant_type: null,
+  stages: [
+    {
+      stage_number: 1,
+      stage_name: "Start to Middle",
+      details: { total_time: "5h30", highlights: ["Roman bridge"] },
+    },
+    {
+      stage_number: 2,
+      stage_name: "Middle to End",
+      details: { total_time: "4h00", highlights: [] },
+    },
+  ],
+};
+
+describe("mergeRoutes", () => {
+  it("merges changes to different details of the same stage", () => {
+    const mine = structuredClone(parent);
+    mine.stages[0].details.total_time = "6h";
+    const theirs = structuredClone(parent);
+    theirs.stages[0].details.highlights = ["Roman bridge", "Monastery"];
+
+    const { merged, conflicts } = mergeRoutes(parent, mine, theirs);
+    assert.deepEqual(merged.stages[0].details, {
+      total_time: "6h",
+      highlights: ["Roman bridge", "Monastery"],
+    });
+    assert.deepEqual(conflicts, []);
+  });
+
+  it("keeps mine and reports a value both sides changed", () => {
+    const mine = { ...structuredClone(parent), route_name: "Mine" };
+    const theirs = { ...structuredClone(parent), route_name: "Theirs" };
+
+    const { merged, conflicts } = mergeRoutes(parent, mine, theirs);
+    assert.equal(merged.route_name, "Mine");
+    assert.deepEqual(conflicts, ["route_name"]);
+  });
+
+  it("takes stages added or removed on one side", () => {
+    const mine = structuredClone(parent);
+    mine.stages.push({
+      stage_number: 3,
+      stage_name: "Extra",
+      details: { total_time: "", highlights: [] },
+    });
+    const theirs = { ...structuredClone(parent), stages: [parent.stages[0]] };
+
+    const { merged } = mergeRoutes(parent, mine, theirs);
+    assert.deepEqual(
+      merged.stages.map((s) => s.stage_number),
+      [1, 3],
+    );
+  });
+});
+
+describe("syncVariant", () => {
+  const variant = {
+    ...structuredClone(parent),
+    route_id: "camino-spiritual",
+    route_name: "Camino (Spiritual)",
+    variant_of: "camino",
+    variant_type: "spiritual",
+  };
+
+  it("keeps overrides and takes the parent's other changes", () => {
+    const updated = structuredClone(parent);
+    updated.route_name = "Camino Renamed";
+    updated.stages[1].details.total_time = "4h15";
+
+    const sync = syncVariant(parent, variant, updated);
+    assert.equal(sync.merged.route_name, "Camino (Spiritual)");
+    assert.deepEqual(sync.overrides, ["route_name"]);
+    assert.deepEqual(sync.upstream, ["stages[2].details.total_time"]);
+    assert.deepEqual(sync.conflicts, ["route_name"]);
+    assert.deepEqual(
+      (sync.merged.stages as typeof parent.stages)[1].details.total_time,
+      "4h15",
+    );
+  });
+
+  it("keeps what the variant is and reports it as neither", () => {
+    const sync = syncVariant(parent, variant, parent);
+    assert.equal(sync.merged.route_id, "camino-spiritual");
+    assert.equal(sync.merged.variant_of, "camino");
+    assert.equal(sync.merged.variant_type, "spiritual");
+    assert.deepEqual(sync.inherited, ["group_name", "stages[1]", "stages[2]"]);
+  });
+
+  it("does not report the same change on both sides", () => {
+    const updated = { ...structuredClone(parent), group_name: "Other" };
+    const sync = syncVariant(
+      parent,
+      { ...variant, group_name: "Other" },
+      updated,
+    );
+    assert.deepEqual(sync.overrides, ["route_name"]);
+    assert.deepEqual(sync.conflicts, []);
+    assert.ok(sync.inherited.includes("group_name"));
+  });
+});
@@ -0,0 +1,76 @@
+import type { JsonRecord } from "./json";
+import { mergeRoutes, stagesByNumber } from "./routeMerge";
+
+// Three-way merge of a parent route into one of its variants. `base` is the
+// parent as the variant last saw it (`variant_base`), `variant` the variant
+// now and `parent` the parent now, all in export shape. Whatever the variant
+// changed relative to `base` is an override and is kept; everything else is
+// inherited and follows the parent. The merge itself is mergeRoutes, with
+// the variant as `mine` and the parent as `theirs`.
+
+// Fields that say what the variant is rather than describe the route
+const OWN_FIELDS = new Set(["route_id", "variant_of", "variant_type"]);
+
+export type VariantSync = {
+  merged: JsonRecord;
+  // where the variant differs from the parent as it last saw it
+  overrides: string[];
+  // top-level fields and stages with no overrides
+  inherited: string[];
+  // parent changes the merge takes
+  upstream: string[];
+  // changed on both sides; the variant's value is kept
+  conflicts: string[];
+};
+
+function withoutOwnFields(route: JsonRecord) {
+  return Object.fromEntries(
+    Object.entries(route).filter(([key]) => !OWN_FIELDS.has(key)),
+  );
+}
+
+export function syncVariant(
+  base: JsonRecord,
+  variant: JsonRecord,
+  parent: JsonRecord,
+): VariantSync {
+  const { merged, changed, taken, conflicts } = mergeRoutes(
+    withoutOwnFields(base),
+    withoutOwnFields(variant),
+    withoutOwnFields(parent),
+  );
+  OWN_FIELDS.forEach((key) => {
+    if (variant[key] !== undefined) merged[key] = variant[key];
+  });
+
+  const overridden = (path: string) =>
+    changed.some(
+      (override) =>
+        override === path ||
+        override.startsWith(`${path}.`) ||
+        override.startsWith(`${path}[`),
+    );
+  const inherited: string[] = [];
+  new Set([
+    ...Object.keys(base),
+    ...Object.keys(variant),
+    ...Object.keys(parent),
+  ]).forEach((key) => {
+    if (OWN_FIELDS.has(key)) return;
+    if (key === "stages") {
+      Object.keys(stagesByNumber(merged.stages)).forEach((n) => {
+        if (!overridden(`stages[${n}]`)) inherited.push(`stages[${n}]`);
+      });
+    } else if (!overridden(key)) {
+      inherited.push(key);
+    }
+  });
+
+  return {
+    merged,
+    overrides: changed,
+    inherited,
+    upstream: taken,
+    conflicts,
+  };
+}
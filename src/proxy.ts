@@ -0,0 +1,46 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  hasRole,
+  SESSION_COOKIE,
+  verifySession,
+  type Role,
+} from "./lib/session";
+
+// Pages that need more than a signed-in viewer. API handlers check roles
+// themselves (see `requireRole` in src/lib/auth.ts).
+const PAGE_ROLES: Array<[prefix: string, role: Role]> = [
+  ["/audit", "editor"],
+  ["/groups", "editor"],
+  ["/trash", "editor"],
+  ["/users", "admin"],
+];
+
+function requiredRole(pathname: string): Role {
+  // the home page is the route editor
+  if (pathname === "/") return "editor";
+  const match = PAGE_ROLES.find(
+    ([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`),
+  );
+  return match ? match[1] : "viewer";
+}
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (pathname === "/login") return NextResponse.next();
+
+  const user = await verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!user) {
+    const login = new URL("/login", request.url);
+    login.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(login);
+  }
+
+  if (!hasRole(user.role, requiredRole(pathname))) {
+    return NextResponse.redirect(new URL("/routes", request.url));
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/((?!api|_next/static|_next/image|favicon.ico).*)"],
+};